@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { removeDocumentFromStore } from '@/lib/rag/vector-store';
+import { SESSION_OWNER_COOKIE, getSession, isDocumentInUse } from '@/lib/rag/sessions';
+
+// Removes one document from a session without touching the others. Its
+// embeddings are deleted once no other session is using them.
+export async function DELETE(req: NextRequest) {
+  try {
+    const { sessionId, documentId } = await req.json();
+
+    const session = getSession(sessionId, req.cookies.get(SESSION_OWNER_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Chat session not found or expired. Please upload your PDFs again.' },
+        { status: 410 }
+      );
+    }
+
+    if (typeof documentId !== 'string' || !session.documentIds.has(documentId)) {
+      return NextResponse.json(
+        { error: 'The document is not part of this chat' },
+        { status: 404 }
+      );
+    }
+
+    session.documentIds.delete(documentId);
+    if (!isDocumentInUse(documentId)) {
+      await removeDocumentFromStore(documentId);
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing chat document:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildChatReportMarkdown } from '@/lib/chat-report';
+import { renderDocumentPdf } from '@/lib/markdown-pdf';
+import { SESSION_OWNER_COOKIE, getSession } from '@/lib/rag/sessions';
+
+// The report is built from the session's own history, so its questions,
+// answers and excerpts are the ones the server actually handled
+export async function POST(req: NextRequest) {
+  try {
+    const { sessionId, title, format = 'pdf' } = await req.json();
+
+    const session = getSession(sessionId, req.cookies.get(SESSION_OWNER_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Chat session not found or expired. Please upload your PDFs again.' },
+        { status: 410 }
+      );
+    }
+    const messages = session.history;
+
+    if (messages.length === 0) {
+      return NextResponse.json(
+        { error: 'A conversation with at least one message is required' },
+        { status: 400 }
+      );
+    }
+    if (format !== 'pdf' && format !== 'markdown') {
+      return NextResponse.json(
+        { error: `Unsupported export format: ${format}` },
+        { status: 400 }
+      );
+    }
+
+    const reportTitle = (typeof title === 'string' && title.trim()) || 'Chat Report';
+    const markdown = buildChatReportMarkdown({
+      title: reportTitle,
+      messages,
+      exportedAt: new Date().toISOString(),
+    });
+
+    if (format === 'markdown') {
+      return new NextResponse(markdown, {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="chat-report.md"',
+        },
+      });
+    }
+
+    const pdfBytes = await renderDocumentPdf(markdown, {
+      format: 'markdown',
+      template: 'clean',
+      pageSize: 'A4',
+      orientation: 'portrait',
+      margin: 56,
+      pageNumbers: true,
+      title: reportTitle,
+    });
+
+    return new NextResponse(pdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'attachment; filename="chat-report.pdf"',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting chat:', error);
+    return NextResponse.json(
+      { error: 'Failed to export chat' },
+      { status: 500 }
+    );
+  }
+}
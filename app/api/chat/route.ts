@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { searchSimilarChunks, initializeVectorStore, addDocumentsToStore } from "@/lib/rag/vector-store";
+import { createHash } from 'crypto';
+import { searchSimilarChunks, initializeVectorStore, addDocumentsToStore, hasDocumentInStore } from "@/lib/rag/vector-store";
+import { loadAndProcessPDF } from "@/lib/rag/pdf-processor";
 import { OllamaService } from "@/lib/services/ollama";
+import { DocumentChunk, formatPageRange } from "@/lib/rag/types";
+import { SESSION_OWNER_COOKIE, addToHistory, getPromptHistory, getSession } from '@/lib/rag/sessions';
 import { formatError } from '@/lib/utils';
+import { encodeSseEvent } from '@/lib/sse';
 
 // Initialize vector store when the API route is first loaded
 let isInitialized = false;
@@ -32,21 +37,60 @@ export async function POST(req: NextRequest) {
     }
     console.log("Ollama service is running");
 
-    const { message, history, isPDFMode, chunks } = await req.json();
+    // PDFs are uploaded as form data, questions are sent as JSON
+    const isUpload = req.headers.get('content-type')?.startsWith('multipart/form-data');
+    const { sessionId, message, documentIds: requestedIds, file } = isUpload
+      ? Object.fromEntries(await req.formData())
+      : await req.json();
+
+    // Documents and history belong to the session, so one chat never sees another's uploads
+    const session = getSession(sessionId, req.cookies.get(SESSION_OWNER_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Chat session not found or expired. Please upload your PDFs again.' },
+        { status: 410 }
+      );
+    }
+    const history = getPromptHistory(session);
+
+    // Questions are answered from the session's documents in scope, or without context when there are none
+    const documentIds: string[] = Array.isArray(requestedIds)
+      ? requestedIds.filter((id) => session.documentIds.has(id))
+      : [];
+    const isPDFMode = documentIds.length > 0;
     console.log("Request details:", { 
+      sessionId: session.id,
       messageLength: message?.length, 
-      historyLength: history?.length,
-      isPDFMode,
-      hasChunks: !!chunks,
+      historyLength: history.length,
+      documentIds,
+      hasFile: !!file,
       messagePreview: message?.slice(0, 50)
     });
 
-    // If chunks are provided, add them to the vector store
-    if (chunks && chunks.length > 0) {
-      console.log(`Adding ${chunks.length} chunks to vector store...`);
+    // An uploaded PDF is chunked here and stored under the SHA-256 of its
+    // bytes, so no client can choose which document its chunks are stored as.
+    // A PDF that was indexed before is reused without embedding it again.
+    if (isUpload) {
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'No PDF file provided' },
+          { status: 400 }
+        );
+      }
+      const pdfBytes = await file.arrayBuffer();
+      const documentId = createHash('sha256').update(new Uint8Array(pdfBytes)).digest('hex');
       await ensureVectorStore();
-      await addDocumentsToStore(chunks);
-      return NextResponse.json({ success: true });
+
+      let embedded = false;
+      if (await hasDocumentInStore(documentId)) {
+        console.log('PDF was indexed before, reusing its embeddings');
+      } else {
+        const chunks = await loadAndProcessPDF(pdfBytes, file.name);
+        console.log(`Adding ${chunks.length} chunks to vector store...`);
+        embedded = await addDocumentsToStore(documentId, chunks);
+      }
+      session.documentIds.add(documentId);
+      return NextResponse.json({ success: true, documentId, embedded });
     }
 
     if (!message) {
@@ -57,7 +101,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    let contextChunks: string[] = [];
+    const askedAt = new Date().toISOString();
+    let contextChunks: DocumentChunk[] = [];
     let prompt: string;
 
     // Only try to get context if in PDF mode
@@ -66,31 +111,44 @@ export async function POST(req: NextRequest) {
       try {
         await ensureVectorStore();
         console.log("Searching for relevant context in vector store...");
-        contextChunks = await searchSimilarChunks(message);
+        // Each document gets its own share of passages so that one long
+        // document cannot crowd out the others when they are compared
+        const k = documentIds.length === 1 ? 3 : 2;
+        const results = await Promise.all(
+          documentIds.map((documentId) => searchSimilarChunks(message, { documentIds: [documentId], k }))
+        );
+        contextChunks = results.flat();
         
         if (contextChunks.length === 0) {
           console.log("No relevant context found in vector store");
           return NextResponse.json(
-            { error: 'No relevant information found in the PDF. Please try uploading the PDF again.' },
+            { error: 'No relevant information found in the selected PDFs. Please try uploading them again.' },
             { status: 404 }
           );
         }
         
         console.log(`Retrieved ${contextChunks.length} relevant chunks`);
         if (contextChunks.length > 0) {
-          console.log("Sample of first context chunk:", contextChunks[0].slice(0, 100));
+          console.log("Sample of first context chunk:", contextChunks[0].text.slice(0, 100));
         }
         
         // Prepare the prompt with context
         console.log("=== PROMPT PREPARATION START ===");
-        const context = contextChunks.join("\n\n");
-        prompt = `You are a helpful AI assistant. Use the following context from the PDF document to answer the user's question. If you cannot find the answer in the context, say so.
+        // Passages are numbered and labelled with their pages so answers can cite them
+        const context = contextChunks
+          .map(({ text, metadata }, i) => `[${i + 1}] (${metadata.source}, ${formatPageRange(metadata)})\n${text}`)
+          .join("\n\n");
+        const citation = documentIds.length === 1
+          ? 'for example [p. 12] or [pp. 12-13]'
+          : 'with the file name, for example [contract.pdf, p. 12] or [contract.pdf, pp. 12-13]';
+        prompt = `You are a helpful AI assistant. Use the following numbered passages from ${documentIds.length === 1 ? 'the PDF document' : `${documentIds.length} PDF documents`} to answer the user's question. If you cannot find the answer in the passages, say so.
+After each statement taken from a passage, cite the page it came from in square brackets, ${citation}. Only cite pages listed with the passages.
 
 Context from PDF:
 ${context}
 
 Chat History:
-${history.map((msg: any) => `${msg.role}: ${msg.content}`).join('\n')}
+${history.map((msg) => `${msg.role}: ${msg.content}`).join('\n')}
 
 User: ${message}
 Assistant:`;
@@ -109,31 +167,82 @@ Assistant:`;
       prompt = `You are a helpful AI assistant. Answer the user's question to the best of your ability.
 
 Chat History:
-${history.map((msg: any) => `${msg.role}: ${msg.content}`).join('\n')}
+${history.map((msg) => `${msg.role}: ${msg.content}`).join('\n')}
 
 User: ${message}
 Assistant:`;
     }
 
-    // Generate response using Ollama service
-    console.log("=== RESPONSE GENERATION START ===");
-    try {
-      const response = await ollama.generate(prompt);
-      console.log("Response preview:", response.slice(0, 100));
-      console.log("=== RESPONSE GENERATION COMPLETE ===");
-      console.log("=== CHAT REQUEST COMPLETE ===");
-      return NextResponse.json({ 
-        response,
-        context: contextChunks 
-      });
-    } catch (error: any) {
-      console.error("=== RESPONSE GENERATION ERROR ===");
-      console.error("Error generating response:", error);
-      return NextResponse.json(
-        { error: `Failed to generate response: ${error.message}` },
-        { status: 500 }
-      );
-    }
+    // Stream the response as server-sent events: the retrieved context
+    // first, then each token as Ollama produces it
+    console.log("=== RESPONSE STREAMING START ===");
+    const encoder = new TextEncoder();
+    // Stopping in the UI cancels the stream, which stops Ollama generating
+    const abortController = new AbortController();
+    req.signal.addEventListener('abort', () => abortController.abort());
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!abortController.signal.aborted) {
+            controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+          }
+        };
+
+        send('context', contextChunks);
+        const answeredAt = new Date().toISOString();
+        let answer = '';
+        try {
+          for await (const token of ollama.generateStream(prompt, abortController.signal)) {
+            answer += token;
+            send('token', token);
+          }
+          console.log(`Streamed ${answer.length} characters`);
+          console.log("=== RESPONSE STREAMING COMPLETE ===");
+          send('done', {});
+        } catch (error: any) {
+          if (abortController.signal.aborted) {
+            console.log("Response stream stopped by the client");
+          } else {
+            console.error("=== RESPONSE STREAMING ERROR ===");
+            console.error("Error generating response:", error);
+            send('error', { error: `Failed to generate response: ${error.message}` });
+          }
+        } finally {
+          // A stopped answer is kept as far as it got, as it is in the UI
+          if (answer) {
+            addToHistory(
+              session,
+              { role: 'user', content: message, timestamp: askedAt },
+              {
+                role: 'assistant',
+                content: answer,
+                timestamp: answeredAt,
+                ...(isPDFMode
+                  ? {
+                      source: Array.from(new Set(contextChunks.map((chunk) => chunk.metadata.source))).join(', '),
+                      context: contextChunks,
+                    }
+                  : {}),
+              }
+            );
+          }
+          if (!abortController.signal.aborted) {
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        abortController.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
   } catch (error: any) {
     console.error("=== CHAT REQUEST ERROR ===");
     console.error("Error details:", {
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SESSION_OWNER_COOKIE,
+  createOwnerId,
+  createSession,
+  deleteSession,
+  listSessions,
+  toSessionSummary,
+} from '@/lib/rag/sessions';
+
+// Only the sessions started from this browser are listed
+export async function GET(req: NextRequest) {
+  const ownerId = req.cookies.get(SESSION_OWNER_COOKIE)?.value;
+  return NextResponse.json({ sessions: ownerId ? listSessions(ownerId).map(toSessionSummary) : [] });
+}
+
+// Starts a chat session; the returned ID goes with every later chat request
+export async function POST(req: NextRequest) {
+  const ownerId = req.cookies.get(SESSION_OWNER_COOKIE)?.value || createOwnerId();
+  const session = createSession(ownerId);
+  const response = NextResponse.json(toSessionSummary(session));
+  response.cookies.set(SESSION_OWNER_COOKIE, ownerId, {
+    httpOnly: true,
+    sameSite: 'strict',
+    path: '/api/chat',
+  });
+  return response;
+}
+
+// Ends a session straight away. Its documents stay indexed so they can be reused.
+export async function DELETE(req: NextRequest) {
+  try {
+    const { sessionId } = await req.json();
+
+    if (typeof sessionId !== 'string' || !sessionId) {
+      return NextResponse.json(
+        { error: 'A session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!deleteSession(sessionId, req.cookies.get(SESSION_OWNER_COOKIE)?.value)) {
+      return NextResponse.json(
+        { error: 'Chat session not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete chat session' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,131 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PDFDocument } from 'pdf-lib';
 import { pdfjs } from '@/lib/pdf-worker';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
 import { renderPageToCanvas, compressImage } from '@/lib/canvas-utils';
+import { optimizePdf } from '@/lib/pdf-optimizer';
+
+type CompressionLevel = 'low' | 'medium' | 'high';
+type CompressionStrategy = 'preserve' | 'rasterize';
+
+interface CompressionResult {
+  bytes: Uint8Array;
+  pageImageBytes: number[];
+}
+
+interface CompressionReport {
+  strategy: CompressionStrategy;
+  level: CompressionLevel;
+  originalSize: number;
+  finalSize: number;
+  targetSize?: number;
+  targetMet?: boolean;
+  attempts: { strategy: CompressionStrategy; level: CompressionLevel; size: number }[];
+  pages: { page: number; imageBytes: number }[];
+}
+
+// Rasterize settings
+const qualitySettings = {
+  low: { scale: 0.5, quality: 30 },
+  medium: { scale: 0.75, quality: 50 },
+  high: { scale: 1.0, quality: 70 },
+};
+
+// Structure-preserving settings
+const optimizeSettings = {
+  low: { imageQuality: 40, maxImageDpi: 96 },
+  medium: { imageQuality: 60, maxImageDpi: 150 },
+  high: { imageQuality: 80, maxImageDpi: 220 },
+};
+
+// Target-size mode walks down from the best quality until the output fits
+const QUALITY_LADDER: CompressionLevel[] = ['high', 'medium', 'low'];
+
+// When the structure-preserving ladder cannot reach the target, the
+// rasterize ladder follows only if the request allows flattening pages
+const targetLadder = (strategy: CompressionStrategy, allowRasterize: boolean) => [
+  ...(strategy === 'preserve' ? QUALITY_LADDER.map((level) => ({ strategy, level })) : []),
+  ...(strategy === 'rasterize' || allowRasterize
+    ? QUALITY_LADDER.map((level) => ({ strategy: 'rasterize' as const, level }))
+    : []),
+];
+
+async function rasterizePdf(
+  pdfBytes: ArrayBuffer,
+  settings: { scale: number; quality: number }
+): Promise<CompressionResult> {
+  // Load the PDF using pdf.js
+  const pdfDoc = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBytes),
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true
+  }).promise;
+
+  // Create a new PDF document
+  const newPdf = await PDFDocument.create();
+  const pageImageBytes: number[] = [];
+
+  // Process each page
+  for (let i = 1; i <= pdfDoc.numPages; i++) {
+    const page = await pdfDoc.getPage(i);
+
+    // Render page to canvas
+    const canvas = await renderPageToCanvas({
+      page,
+      scale: settings.scale,
+    });
+
+    // Compress the page image
+    const compressedImage = await compressImage(canvas, settings.quality);
+    pageImageBytes.push(compressedImage.length);
+
+    // Add compressed image to new PDF, stretched over the whole page whatever its resolution
+    const image = await newPdf.embedJpg(compressedImage);
+    const { width, height } = page.getViewport({ scale: 1.0 });
+    const newPage = newPdf.addPage([width, height]);
+
+    newPage.drawImage(image, {
+      x: 0,
+      y: 0,
+      width,
+      height,
+    });
+  }
+
+  // Save the compressed PDF
+  const bytes = await newPdf.save({
+    useObjectStreams: false,
+    addDefaultPage: false,
+  });
+
+  return { bytes, pageImageBytes };
+}
+
+async function compressPdf(
+  pdfBytes: ArrayBuffer,
+  strategy: CompressionStrategy,
+  level: CompressionLevel
+): Promise<CompressionResult> {
+  // Rasterizing flattens every page to an image, so it only runs when asked
+  // for or allowed as a fallback for a target size
+  if (strategy === 'rasterize') {
+    return rasterizePdf(pdfBytes, qualitySettings[level]);
+  }
+
+  const { bytes, stats } = await optimizePdf(pdfBytes, optimizeSettings[level]);
+  return { bytes, pageImageBytes: stats.pageImageBytes };
+}
 
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData();
     const file = formData.get('file') as File;
-    const quality = formData.get('quality') as 'low' | 'medium' | 'high';
+    const quality = formData.get('quality') as CompressionLevel;
+    const strategy = ((formData.get('strategy') as string) || 'preserve') as CompressionStrategy;
+    const targetSize = formData.get('targetSize') ? Number(formData.get('targetSize')) : undefined;
+    const allowRasterize = formData.get('allowRasterize') === 'true';
+    const includeReport = formData.get('report') === 'true';
 
     if (!file) {
       return NextResponse.json(
@@ -16,70 +134,93 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Quality settings
-    const qualitySettings = {
-      low: { scale: 0.5, quality: 30 },
-      medium: { scale: 0.75, quality: 50 },
-      high: { scale: 1.0, quality: 70 },
-    };
+    if (strategy !== 'preserve' && strategy !== 'rasterize') {
+      return NextResponse.json(
+        { error: `Unsupported compression strategy: ${strategy}` },
+        { status: 400 }
+      );
+    }
+
+    if (targetSize !== undefined && (!Number.isFinite(targetSize) || targetSize <= 0)) {
+      return NextResponse.json(
+        { error: 'Target size must be a positive number of bytes' },
+        { status: 400 }
+      );
+    }
 
-    const settings = qualitySettings[quality] || qualitySettings.medium;
+    // Password-protected files are turned away before any work starts
+    await loadUploadedPdf(file, { updateMetadata: false });
     const pdfBytes = await file.arrayBuffer();
+    const steps = targetSize !== undefined
+      ? targetLadder(strategy, allowRasterize)
+      : [{ strategy, level: quality in qualitySettings ? quality : 'medium' as const }];
 
-    // Load the PDF using pdf.js
-    const pdfDoc = await pdfjs.getDocument({
-      data: new Uint8Array(pdfBytes),
-      useWorkerFetch: false,
-      isEvalSupported: false,
-      useSystemFonts: true
-    }).promise;
-
-    // Create a new PDF document
-    const newPdf = await PDFDocument.create();
-
-    // Process each page
-    for (let i = 1; i <= pdfDoc.numPages; i++) {
-      const page = await pdfDoc.getPage(i);
-      
-      // Render page to canvas
-      const canvas = await renderPageToCanvas({
-        page,
-        scale: settings.scale,
-      });
-
-      // Compress the page image
-      const compressedImage = await compressImage(canvas, settings.quality);
-
-      // Add compressed image to new PDF
-      const image = await newPdf.embedJpg(compressedImage);
-      const { width, height } = page.getViewport({ scale: 1.0 });
-      const newPage = newPdf.addPage([width, height]);
-      
-      newPage.drawImage(image, {
-        x: 0,
-        y: 0,
-        width: width * settings.scale,
-        height: height * settings.scale,
-      });
+    // Try each step in turn, keeping the smallest output in case none fits
+    const attempts: CompressionReport['attempts'] = [];
+    let best: (CompressionResult & { strategy: CompressionStrategy; level: CompressionLevel }) | null = null;
+    for (const step of steps) {
+      let result: CompressionResult;
+      try {
+        result = await compressPdf(pdfBytes, step.strategy, step.level);
+      } catch (error) {
+        // A failed fallback still leaves the structure-preserving results to choose from
+        if (step.strategy === strategy) throw error;
+        console.error('Rasterize fallback failed:', error);
+        break;
+      }
+      attempts.push({ ...step, size: result.bytes.byteLength });
+
+      if (!best || result.bytes.byteLength < best.bytes.byteLength) {
+        best = { ...result, ...step };
+      }
+      if (targetSize !== undefined && result.bytes.byteLength <= targetSize) {
+        break;
+      }
     }
 
-    // Save the compressed PDF
-    const compressedPdfBytes = await newPdf.save({
-      useObjectStreams: false,
-      addDefaultPage: false,
-    });
+    const { bytes: compressedPdfBytes, pageImageBytes, level, strategy: usedStrategy } = best!;
+    const report: CompressionReport = {
+      strategy: usedStrategy,
+      level,
+      originalSize: pdfBytes.byteLength,
+      finalSize: compressedPdfBytes.byteLength,
+      ...(targetSize !== undefined
+        ? { targetSize, targetMet: compressedPdfBytes.byteLength <= targetSize }
+        : {}),
+      attempts,
+      pages: pageImageBytes.map((imageBytes, i) => ({ page: i + 1, imageBytes })),
+    };
+
+    const filename = `compressed-${file.name}`;
+
+    // The report and the PDF travel as separate parts, so the PDF stays binary
+    if (includeReport) {
+      const body = new FormData();
+      body.append('report', JSON.stringify(report));
+      body.append('file', new Blob([Buffer.from(compressedPdfBytes)], { type: 'application/pdf' }), filename);
+      return new NextResponse(body);
+    }
 
     return new NextResponse(compressedPdfBytes, {
       headers: {
         'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="compressed-${file.name}"`,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Compression-Strategy': usedStrategy,
+        'X-Original-Size': String(report.originalSize),
+        'X-Compressed-Size': String(report.finalSize),
       },
     });
   } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
     console.error('Error compressing PDF:', error);
     return NextResponse.json(
       { error: 'Failed to compress PDF. Please try again.' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -1,6 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { pdfjs } from '@/lib/pdf-worker';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
 import { renderPageToCanvas } from '@/lib/canvas-utils';
+import { convertPdfToDocx } from '@/lib/docx-utils';
+import { extractPageTexts } from '@/lib/ocr';
+import { parsePageRanges } from '@/lib/page-ranges';
+import { createZipArchive, pageFileName } from '@/lib/zip-utils';
+import { formatError } from '@/lib/utils';
+
+type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+const IMAGE_FORMATS: Record<ImageFormat, { extension: string; contentType: string }> = {
+  png: { extension: 'png', contentType: 'image/png' },
+  jpeg: { extension: 'jpg', contentType: 'image/jpeg' },
+  webp: { extension: 'webp', contentType: 'image/webp' },
+};
+
+// 144 DPI matches the previous fixed render scale of 2.0
+const DEFAULT_DPI = 144;
+const MIN_DPI = 36;
+const MAX_DPI = 600;
 
 export async function POST(req: NextRequest) {
   try {
@@ -15,6 +34,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Password-protected files are turned away before any work starts
+    await loadUploadedPdf(file, { updateMetadata: false });
     const pdfBytes = await file.arrayBuffer();
     const pdfDoc = await pdfjs.getDocument({
       data: new Uint8Array(pdfBytes),
@@ -25,15 +46,11 @@ export async function POST(req: NextRequest) {
 
     switch (format) {
       case 'text': {
-        let text = '';
-        for (let i = 1; i <= pdfDoc.numPages; i++) {
-          const page = await pdfDoc.getPage(i);
-          const content = await page.getTextContent();
-          const pageText = content.items
-            .map((item: any) => item.str)
-            .join(' ');
-          text += `Page ${i}\n${pageText}\n\n`;
-        }
+        // Scanned pages have no text layer, so they are read with OCR unless turned off
+        const pages = await extractPageTexts(pdfDoc, { ocr: formData.get('ocr') !== 'false' });
+        const text = pages
+          .map((page) => `Page ${page.pageNumber}\n${page.text}\n\n`)
+          .join('');
 
         return new NextResponse(text, {
           headers: {
@@ -44,57 +61,84 @@ export async function POST(req: NextRequest) {
       }
 
       case 'image': {
-        const page = await pdfDoc.getPage(1);
-        const canvas = await renderPageToCanvas({ 
-          page, 
-          scale: 2.0 
-        });
+        const imageFormat = (formData.get('imageFormat') as ImageFormat) || 'png';
+        const dpi = Number(formData.get('dpi')) || DEFAULT_DPI;
+
+        if (!IMAGE_FORMATS[imageFormat]) {
+          return NextResponse.json(
+            { error: `Unsupported image format: ${imageFormat}` },
+            { status: 400 }
+          );
+        }
+
+        if (dpi < MIN_DPI || dpi > MAX_DPI) {
+          return NextResponse.json(
+            { error: `DPI must be between ${MIN_DPI} and ${MAX_DPI}` },
+            { status: 400 }
+          );
+        }
+
+        let pages: number[];
+        try {
+          pages = parsePageRanges(formData.get('pages') as string | null, pdfDoc.numPages);
+        } catch (error) {
+          return NextResponse.json(
+            { error: formatError(error) },
+            { status: 400 }
+          );
+        }
 
         const sharp = (await import('sharp')).default;
-        const pngBuffer = await sharp(canvas.toBuffer('image/png'))
-          .png({ quality: 100 })
-          .toBuffer();
+        const { extension, contentType } = IMAGE_FORMATS[imageFormat];
+        const baseName = file.name.replace(/\.pdf$/i, '');
+        const images: { name: string; data: Buffer }[] = [];
+
+        for (const pageNumber of pages) {
+          const page = await pdfDoc.getPage(pageNumber);
+          const canvas = await renderPageToCanvas({
+            page,
+            scale: dpi / 72
+          });
+
+          const image = sharp(canvas.toBuffer('image/png')).withMetadata({ density: dpi });
+          const buffer = imageFormat === 'jpeg'
+            ? await image.jpeg({ quality: 90 }).toBuffer()
+            : imageFormat === 'webp'
+              ? await image.webp({ quality: 90 }).toBuffer()
+              : await image.png({ quality: 100 }).toBuffer();
 
-        return new NextResponse(pngBuffer, {
+          images.push({
+            name: pageFileName(baseName, pageNumber, pdfDoc.numPages, extension),
+            data: buffer,
+          });
+        }
+
+        if (images.length === 1) {
+          return new NextResponse(images[0].data, {
+            headers: {
+              'Content-Type': contentType,
+              'Content-Disposition': `attachment; filename="${images[0].name}"`,
+            },
+          });
+        }
+
+        const archive = await createZipArchive(images);
+
+        return new NextResponse(archive, {
           headers: {
-            'Content-Type': 'image/png',
-            'Content-Disposition': `attachment; filename="${file.name.replace('.pdf', '.png')}"`,
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${baseName}-images.zip"`,
           },
         });
       }
 
       case 'docx': {
-        let text = '';
-        for (let i = 1; i <= pdfDoc.numPages; i++) {
-          const page = await pdfDoc.getPage(i);
-          const content = await page.getTextContent();
-          const items = content.items as Array<{ str: string; transform: number[] }>;
-          
-          let lastY: number | null = null;
-          let lineText = '';
-
-          for (const item of items) {
-            const [, , , y] = item.transform;
-            
-            if (lastY !== null && Math.abs(y - lastY) > 5) {
-              text += lineText.trim() + '\n';
-              lineText = '';
-            }
-            
-            lineText += item.str + ' ';
-            lastY = y;
-          }
-          
-          if (lineText.trim()) {
-            text += lineText.trim() + '\n';
-          }
-          text += '\n';
-        }
+        const docxBuffer = await convertPdfToDocx(pdfDoc);
 
-        return new NextResponse(text, {
+        return new NextResponse(docxBuffer, {
           headers: {
-            'Content-Type': 'text/plain',
-            'Content-Disposition': `attachment; filename="${file.name.replace('.pdf', '.txt')}"`,
+            'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+            'Content-Disposition': `attachment; filename="${file.name.replace('.pdf', '.docx')}"`,
           },
         });
       }
@@ -106,6 +150,12 @@ export async function POST(req: NextRequest) {
         );
     }
   } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
     console.error('Error converting PDF:', error);
     return NextResponse.json(
       { error: 'Failed to convert PDF. Please try again.' },
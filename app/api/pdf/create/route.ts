@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CreatePdfOptions,
+  PDF_TEMPLATES,
+  PdfImageSource,
+  getMarkdownImageRefs,
+  renderDocumentPdf,
+} from '@/lib/markdown-pdf';
+import { formatError } from '@/lib/utils';
+
+const DEFAULT_OPTIONS: CreatePdfOptions = {
+  format: 'markdown',
+  template: 'clean',
+  pageSize: 'A4',
+  orientation: 'portrait',
+  margin: 56,
+  pageNumbers: true,
+  title: '',
+};
+
+const MAX_CONTENT_LENGTH = 2 * 1024 * 1024;
+
+function parseOptions(value: string | null): CreatePdfOptions {
+  const options = { ...DEFAULT_OPTIONS, ...(value ? JSON.parse(value) : {}) };
+  if (options.format !== 'markdown' && options.format !== 'text') {
+    throw new Error(`Unsupported format: ${options.format}`);
+  }
+  if (!(options.template in PDF_TEMPLATES)) {
+    throw new Error(`Unknown template: ${options.template}`);
+  }
+  if (options.pageSize !== 'A4' && options.pageSize !== 'LETTER') {
+    throw new Error(`Unsupported page size: ${options.pageSize}`);
+  }
+  if (options.orientation !== 'portrait' && options.orientation !== 'landscape') {
+    throw new Error(`Unsupported orientation: ${options.orientation}`);
+  }
+  if (typeof options.margin !== 'number' || options.margin < 0 || options.margin > 144) {
+    throw new Error('Margins must be between 0 and 144 points');
+  }
+  options.title = String(options.title || '').trim();
+  return options;
+}
+
+// react-pdf only draws PNG and JPEG, so anything else sharp can read is converted
+async function toPdfImage(bytes: Buffer): Promise<PdfImageSource> {
+  const sharp = (await import('sharp')).default;
+  const image = sharp(bytes).rotate();
+  const { format, orientation } = await image.metadata();
+  if (format === 'jpeg' && (orientation || 1) === 1) return { data: bytes, format: 'jpg' };
+  if (format === 'png') return { data: bytes, format: 'png' };
+  return { data: await image.png().toBuffer(), format: 'png' };
+}
+
+/**
+ * Images referenced by the document, keyed by the address it uses. Uploaded
+ * files match by name and data URIs are decoded; remote addresses are left
+ * out so nothing is downloaded while rendering.
+ */
+async function loadImages(refs: string[], uploads: File[]) {
+  const images = new Map<string, PdfImageSource>();
+  for (const ref of refs) {
+    const dataUri = ref.match(/^data:image\/[\w+.-]+;base64,(.*)$/i);
+    const name = ref.replace(/^\.\//, '');
+    const upload = uploads.find((file) => file.name === name || encodeURI(file.name) === name);
+    const bytes = dataUri
+      ? Buffer.from(dataUri[1], 'base64')
+      : upload
+        ? Buffer.from(await upload.arrayBuffer())
+        : null;
+    if (!bytes) continue;
+    try {
+      images.set(ref, await toPdfImage(bytes));
+    } catch {
+      throw new Error(`${upload?.name || 'An embedded image'} could not be read as an image`);
+    }
+  }
+  return images;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File | null;
+    const uploads = formData.getAll('images') as File[];
+
+    let options: CreatePdfOptions;
+    try {
+      options = parseOptions(formData.get('options') as string | null);
+    } catch (error) {
+      return NextResponse.json(
+        { error: formatError(error) },
+        { status: 400 }
+      );
+    }
+
+    // An uploaded .md or .txt file takes the place of typed content
+    const content = file ? await file.text() : ((formData.get('content') as string | null) || '');
+    if (!content.trim()) {
+      return NextResponse.json(
+        { error: 'Some text or a Markdown file is required' },
+        { status: 400 }
+      );
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json(
+        { error: 'The document is too long to convert' },
+        { status: 400 }
+      );
+    }
+
+    let images: Map<string, PdfImageSource>;
+    try {
+      images = options.format === 'markdown'
+        ? await loadImages(getMarkdownImageRefs(content), uploads)
+        : new Map();
+    } catch (error) {
+      return NextResponse.json(
+        { error: formatError(error) },
+        { status: 400 }
+      );
+    }
+
+    const pdfBytes = await renderDocumentPdf(content, options, images);
+    const baseName = (options.title || file?.name.replace(/\.[^.]+$/, '') || 'document')
+      .replace(/[\\/:*?"<>|]/g, '_');
+
+    return new NextResponse(pdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${baseName}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to create PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IncorrectPasswordError, decryptPdf, isPdfEncrypted } from '@/lib/pdf-security';
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const password = (formData.get('password') as string) || '';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    const pdfBytes = await file.arrayBuffer();
+    if (!(await isPdfEncrypted(pdfBytes))) {
+      return NextResponse.json(
+        { error: 'This PDF is not password-protected' },
+        { status: 400 }
+      );
+    }
+
+    let decryptedPdfBytes: Uint8Array;
+    try {
+      decryptedPdfBytes = await decryptPdf(pdfBytes, password);
+    } catch (error) {
+      // 401 tells the client to ask for a (different) password and retry
+      if (error instanceof IncorrectPasswordError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+      throw error;
+    }
+
+    return new NextResponse(decryptedPdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="unlocked-${file.name}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error decrypting PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to decrypt PDF' },
+      { status: 500 }
+    );
+  }
+}
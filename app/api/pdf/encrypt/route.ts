@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EncryptionAlgorithm, encryptPdf, isPdfEncrypted } from '@/lib/pdf-security';
+
+const ALGORITHMS: EncryptionAlgorithm[] = ['AES-128', 'AES-256'];
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const userPassword = (formData.get('userPassword') as string) || '';
+    const ownerPassword = (formData.get('ownerPassword') as string) || '';
+    const algorithm = ((formData.get('algorithm') as string) || 'AES-256') as EncryptionAlgorithm;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (!userPassword && !ownerPassword) {
+      return NextResponse.json(
+        { error: 'A user or owner password is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ALGORITHMS.includes(algorithm)) {
+      return NextResponse.json(
+        { error: `Unsupported encryption algorithm: ${algorithm}` },
+        { status: 400 }
+      );
+    }
+
+    const pdfBytes = await file.arrayBuffer();
+    if (await isPdfEncrypted(pdfBytes)) {
+      return NextResponse.json(
+        { error: 'This PDF is already password-protected. Decrypt it first.' },
+        { status: 400 }
+      );
+    }
+
+    // Permissions default to allowed unless the form explicitly turns them off
+    const encryptedPdfBytes = await encryptPdf(pdfBytes, {
+      userPassword,
+      ownerPassword,
+      algorithm,
+      allowPrinting: formData.get('allowPrinting') !== 'false',
+      allowCopying: formData.get('allowCopying') !== 'false',
+      allowEditing: formData.get('allowEditing') !== 'false',
+    });
+
+    return new NextResponse(encryptedPdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="protected-${file.name}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error encrypting PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to encrypt PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PDFDocument } from 'pdf-lib';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { FormFillError, FormValues, csvRowToFormValues, fillFormFields, listFormFields } from '@/lib/pdf-forms';
+import { parseCsv } from '@/lib/csv';
+import { createZipArchive } from '@/lib/zip-utils';
+
+// Each row is a full copy of the PDF, so batches are capped to keep memory bounded
+const MAX_BATCH_ROWS = 500;
+
+// Optional CSV column naming each output file
+const FILENAME_COLUMN = 'filename';
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_').replace(/\.pdf$/i, '');
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const csvFile = formData.get('csv') as File | null;
+    const flatten = formData.get('flatten') === 'true';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    const pdfDoc = await loadUploadedPdf(file);
+    const baseName = file.name.replace(/\.pdf$/i, '');
+
+    if (!csvFile) {
+      let values: FormValues;
+      try {
+        values = JSON.parse((formData.get('values') as string) || '{}');
+      } catch {
+        return NextResponse.json(
+          { error: 'Form values must be valid JSON' },
+          { status: 400 }
+        );
+      }
+
+      fillFormFields(pdfDoc, values, { flatten });
+      const filledPdfBytes = await pdfDoc.save();
+
+      return new NextResponse(filledPdfBytes, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="filled-${file.name}"`,
+        },
+      });
+    }
+
+    const [header, ...rows] = parseCsv(await csvFile.text());
+    if (!header || rows.length === 0) {
+      return NextResponse.json(
+        { error: 'The CSV needs a header row of field names and at least one data row' },
+        { status: 400 }
+      );
+    }
+    if (rows.length > MAX_BATCH_ROWS) {
+      return NextResponse.json(
+        { error: `The CSV has ${rows.length} rows; the limit is ${MAX_BATCH_ROWS}` },
+        { status: 400 }
+      );
+    }
+
+    const fields = listFormFields(pdfDoc);
+    const unknownColumns = header.filter(
+      (column) => column.trim() !== FILENAME_COLUMN && !fields.some((field) => field.name === column.trim())
+    );
+    if (unknownColumns.length === header.length) {
+      return NextResponse.json(
+        { error: 'None of the CSV columns match a form field name' },
+        { status: 400 }
+      );
+    }
+
+    const pdfBytes = await file.arrayBuffer();
+    const filenameIndex = header.findIndex((column) => column.trim() === FILENAME_COLUMN);
+    const width = Math.max(3, String(rows.length).length);
+    const usedNames = new Set<string>();
+    const entries: { name: string; data: Uint8Array }[] = [];
+
+    for (const [i, row] of rows.entries()) {
+      // Every row starts from the untouched original
+      const rowDoc = await PDFDocument.load(pdfBytes);
+      try {
+        fillFormFields(rowDoc, csvRowToFormValues(fields, header, row), { flatten });
+      } catch (error) {
+        if (error instanceof FormFillError) {
+          throw new FormFillError(`Row ${i + 2}: ${error.message}`);
+        }
+        throw error;
+      }
+
+      let name = (filenameIndex !== -1 && safeFileName(row[filenameIndex]?.trim() || '')) ||
+        `${baseName}-${String(i + 1).padStart(width, '0')}`;
+      if (usedNames.has(name)) name = `${name}-${i + 1}`;
+      usedNames.add(name);
+      entries.push({ name: `${name}.pdf`, data: await rowDoc.save() });
+    }
+
+    const archive = await createZipArchive(entries);
+
+    return new NextResponse(archive, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${baseName}-filled.zip"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PasswordProtectedError || error instanceof FormFillError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error filling form:', error);
+    return NextResponse.json(
+      { error: 'Failed to fill PDF form' },
+      { status: 500 }
+    );
+  }
+}
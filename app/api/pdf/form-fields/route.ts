@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { listFormFields } from '@/lib/pdf-forms';
+
+// Lists the AcroForm fields of an uploaded PDF
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    const pdfDoc = await loadUploadedPdf(file, { updateMetadata: false });
+    return NextResponse.json({ filename: file.name, fields: listFormFields(pdfDoc) });
+  } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error reading form fields:', error);
+    return NextResponse.json(
+      { error: 'Failed to read form fields' },
+      { status: 500 }
+    );
+  }
+}
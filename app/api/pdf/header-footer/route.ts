@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PDFPage, degrees, rgb } from 'pdf-lib';
+import { format } from 'date-fns';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { parsePageRanges } from '@/lib/page-ranges';
+import { STANDARD_FONTS } from '@/lib/pdf-fonts';
+import { formatError } from '@/lib/utils';
+
+type Slot = 'headerLeft' | 'headerCenter' | 'headerRight' | 'footerLeft' | 'footerCenter' | 'footerRight';
+
+const SLOTS: Slot[] = ['headerLeft', 'headerCenter', 'headerRight', 'footerLeft', 'footerCenter', 'footerRight'];
+
+interface StampValues {
+  page: number;
+  total: number;
+  bates: string;
+  date: string;
+}
+
+const fillTemplate = (template: string, values: StampValues) =>
+  template.replace(/\{(page|total|bates|date)\}/g, (_, key: keyof StampValues) => String(values[key]));
+
+/**
+ * Maps a point given in the page's visible orientation (after /Rotate is
+ * applied, origin bottom-left of the crop box) to PDF user space.
+ */
+function toUserSpace(page: PDFPage, vx: number, vy: number) {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+
+  switch (rotation) {
+    case 90:
+      return { x: x + width - vy, y: y + vx, angle: 90 };
+    case 180:
+      return { x: x + width - vx, y: y + height - vy, angle: 180 };
+    case 270:
+      return { x: x + vy, y: y + height - vx, angle: 270 };
+    default:
+      return { x: x + vx, y: y + vy, angle: 0 };
+  }
+}
+
+function getVisibleSize(page: PDFPage) {
+  const { width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const fontName = (formData.get('font') as string) || 'helvetica';
+    const fontSize = Number(formData.get('fontSize')) || 10;
+    const marginX = formData.get('marginX') ? Number(formData.get('marginX')) : 36;
+    const marginY = formData.get('marginY') ? Number(formData.get('marginY')) : 24;
+    const startNumber = formData.get('startNumber') ? Number(formData.get('startNumber')) : 1;
+    const batesPrefix = (formData.get('batesPrefix') as string) || '';
+    const batesStart = formData.get('batesStart') ? Number(formData.get('batesStart')) : 1;
+    const batesDigits = Number(formData.get('batesDigits')) || 6;
+    const dateFormat = (formData.get('dateFormat') as string) || 'yyyy-MM-dd';
+    const countSkipped = formData.get('countSkipped') === 'true';
+    const templates = Object.fromEntries(
+      SLOTS.map((slot) => [slot, ((formData.get(slot) as string) || '').trim()])
+    ) as Record<Slot, string>;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (SLOTS.every((slot) => !templates[slot])) {
+      return NextResponse.json(
+        { error: 'Enter text for at least one header or footer position' },
+        { status: 400 }
+      );
+    }
+
+    if (!STANDARD_FONTS[fontName]) {
+      return NextResponse.json(
+        { error: `Unsupported font: ${fontName}` },
+        { status: 400 }
+      );
+    }
+
+    if (![startNumber, batesStart, marginX, marginY].every(Number.isFinite)) {
+      return NextResponse.json(
+        { error: 'Numbers and margins must be valid numbers' },
+        { status: 400 }
+      );
+    }
+
+    // Load the source PDF
+    const pdfDoc = await loadUploadedPdf(file);
+    const pages = pdfDoc.getPages();
+
+    let skipped: Set<number>;
+    let date: string;
+    try {
+      const skipSelection = ((formData.get('skipPages') as string) || '').trim();
+      skipped = new Set(skipSelection ? parsePageRanges(skipSelection, pages.length) : []);
+      date = format(new Date(), dateFormat);
+    } catch (error) {
+      return NextResponse.json(
+        { error: formatError(error) },
+        { status: 400 }
+      );
+    }
+
+    const font = await pdfDoc.embedFont(STANDARD_FONTS[fontName]);
+    const color = rgb(0, 0, 0);
+    const stampedCount = countSkipped ? pages.length : pages.length - skipped.size;
+    let sequence = 0;
+
+    for (let i = 0; i < pages.length; i++) {
+      const page = pages[i];
+      const isSkipped = skipped.has(i + 1);
+
+      // Skipped pages can still consume a number so later pages keep their position
+      if (isSkipped) {
+        if (countSkipped) sequence++;
+        continue;
+      }
+
+      const values: StampValues = {
+        page: startNumber + sequence,
+        total: startNumber + stampedCount - 1,
+        bates: `${batesPrefix}${String(batesStart + sequence).padStart(batesDigits, '0')}`,
+        date,
+      };
+      sequence++;
+
+      const { width, height } = getVisibleSize(page);
+      for (const slot of SLOTS) {
+        if (!templates[slot]) continue;
+
+        const text = fillTemplate(templates[slot], values);
+        let textWidth: number;
+        try {
+          textWidth = font.widthOfTextAtSize(text, fontSize);
+        } catch {
+          return NextResponse.json(
+            { error: 'The header or footer contains characters the selected font cannot display' },
+            { status: 400 }
+          );
+        }
+
+        const vx = slot.endsWith('Left')
+          ? marginX
+          : slot.endsWith('Right')
+            ? width - marginX - textWidth
+            : (width - textWidth) / 2;
+        const vy = slot.startsWith('header')
+          ? height - marginY - font.heightAtSize(fontSize, { descender: false })
+          : marginY;
+
+        const { x, y, angle } = toUserSpace(page, vx, vy);
+        page.drawText(text, { x, y, size: fontSize, font, color, rotate: degrees(angle) });
+      }
+    }
+
+    // Save the stamped PDF
+    const stampedPdfBytes = await pdfDoc.save();
+
+    return new NextResponse(stampedPdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="numbered-${file.name}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error adding headers and footers:', error);
+    return NextResponse.json(
+      { error: 'Failed to add headers and footers' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,233 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PDFDocument } from 'pdf-lib';
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { pdfjs } from '@/lib/pdf-worker';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { OutlineEntry, readOutline, remapOutline, writeOutline } from '@/lib/outline-utils';
+import { insertTableOfContents } from '@/lib/table-of-contents';
+import { parsePageRanges } from '@/lib/page-ranges';
+import { PAPER_SIZES, PaperSize, fitPageToPaper, getVisibleSize, orientPaper } from '@/lib/page-size';
+import {
+  DEFAULT_IMAGE_PAGE_OPTIONS,
+  ImagePageOptions,
+  addImagePages,
+  getImagePageCount,
+  isImageFile,
+} from '@/lib/image-pages';
+import { formatError } from '@/lib/utils';
+
+// `file` is an index into the uploaded `files`; `pages` uses the same syntax
+// as the other page selections and defaults to every page
+type ManifestEntry =
+  | { type: 'file'; file: number; pages?: string }
+  | { type: 'blank' };
+
+type PageSizeOption = 'original' | PaperSize;
+
+// Images become pages at merge time, so they are kept as bytes until then
+type MergeSource =
+  | { type: 'pdf'; pdf: PDFDocument; pageCount: number }
+  | { type: 'image'; bytes: ArrayBuffer; pageCount: number };
+
+function parseImageOptions(value: string | null): ImagePageOptions {
+  const options = { ...DEFAULT_IMAGE_PAGE_OPTIONS, ...(value ? JSON.parse(value) : {}) };
+  if (options.pageSize !== 'image' && !(options.pageSize in PAPER_SIZES)) {
+    throw new Error(`Unsupported image page size: ${options.pageSize}`);
+  }
+  if (!['auto', 'portrait', 'landscape'].includes(options.orientation)) {
+    throw new Error(`Unsupported image orientation: ${options.orientation}`);
+  }
+  if (options.fit !== 'fit' && options.fit !== 'fill') {
+    throw new Error(`Unsupported image fit: ${options.fit}`);
+  }
+  if (typeof options.margin !== 'number' || options.margin < 0 || options.margin > 144) {
+    throw new Error('Image margins must be between 0 and 144 points');
+  }
+  return options;
+}
+
+// A file's own bookmarks, renumbered to where its pages land in the merged document
+async function readFileOutline(file: File, pageMap: Map<number, number>) {
+  const pdfjsDoc = await pdfjs.getDocument({
+    data: new Uint8Array(await file.arrayBuffer()),
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true
+  }).promise;
+  const outline = await readOutline(pdfjsDoc);
+  await pdfjsDoc.destroy();
+  return remapOutline(outline, pageMap);
+}
 
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData();
     const files = formData.getAll('files') as File[];
+    const bookmarks = formData.get('bookmarks') === 'true';
+    const toc = formData.get('toc') === 'true';
+    const pageSize = ((formData.get('pageSize') as string) || 'original') as PageSizeOption;
+    const manifestField = formData.get('manifest') as string | null;
+
+    // A single image is still worth converting, a single PDF is not
+    if (files.length < 2 && !files.some(isImageFile)) {
+      return NextResponse.json(
+        { error: 'At least two PDFs, or one or more images, are required for merging' },
+        { status: 400 }
+      );
+    }
 
-    if (files.length < 2) {
+    let imageOptions: ImagePageOptions;
+    try {
+      imageOptions = parseImageOptions(formData.get('imageOptions') as string | null);
+    } catch (error) {
       return NextResponse.json(
-        { error: 'At least two PDFs are required for merging' },
+        { error: formatError(error) },
         { status: 400 }
       );
     }
 
+    if (pageSize !== 'original' && !(pageSize in PAPER_SIZES)) {
+      return NextResponse.json(
+        { error: `Unsupported page size: ${pageSize}` },
+        { status: 400 }
+      );
+    }
+
+    // Without a manifest every page of every file is merged in upload order
+    let manifest: ManifestEntry[];
+    try {
+      manifest = manifestField
+        ? JSON.parse(manifestField)
+        : files.map((_, i): ManifestEntry => ({ type: 'file', file: i }));
+    } catch {
+      return NextResponse.json(
+        { error: 'The merge manifest must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(manifest) || !manifest.some((entry) => entry?.type === 'file')) {
+      return NextResponse.json(
+        { error: 'The merge manifest must include at least one file' },
+        { status: 400 }
+      );
+    }
+
+    for (const entry of manifest) {
+      if (entry?.type === 'file') {
+        if (!Number.isInteger(entry.file) || entry.file < 0 || entry.file >= files.length) {
+          return NextResponse.json(
+            { error: `Invalid file in merge manifest: ${entry.file}` },
+            { status: 400 }
+          );
+        }
+        if (entry.pages !== undefined && typeof entry.pages !== 'string') {
+          return NextResponse.json(
+            { error: `Page ranges for ${files[entry.file].name} must be a string` },
+            { status: 400 }
+          );
+        }
+      } else if (entry?.type !== 'blank') {
+        return NextResponse.json(
+          { error: `Unknown manifest entry type: ${(entry as { type: string } | null)?.type}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Each source is parsed once even when the manifest uses it several times
+    const sources = new Map<number, MergeSource>();
+    const getSource = async (index: number) => {
+      if (!sources.has(index)) {
+        const file = files[index];
+        if (isImageFile(file)) {
+          const bytes = await file.arrayBuffer();
+          sources.set(index, { type: 'image', bytes, pageCount: await getImagePageCount(bytes) });
+        } else {
+          const pdf = await loadUploadedPdf(file);
+          sources.set(index, { type: 'pdf', pdf, pageCount: pdf.getPageCount() });
+        }
+      }
+      return sources.get(index)!;
+    };
+
+    // Resolve every page selection before building anything so a bad range fails fast
+    const selections = new Map<ManifestEntry, number[]>();
+    for (const entry of manifest) {
+      if (entry.type !== 'file') continue;
+      let source: MergeSource;
+      try {
+        source = await getSource(entry.file);
+      } catch (error) {
+        if (!isImageFile(files[entry.file])) throw error;
+        return NextResponse.json(
+          { error: `${files[entry.file].name} could not be read as an image` },
+          { status: 400 }
+        );
+      }
+      try {
+        selections.set(entry, parsePageRanges(entry.pages, source.pageCount));
+      } catch (error) {
+        return NextResponse.json(
+          { error: `${files[entry.file].name}: ${formatError(error)}` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Create a new PDF document
     const mergedPdf = await PDFDocument.create();
+    let outline: OutlineEntry[] = [];
+
+    // Process each entry
+    for (const entry of manifest) {
+      if (entry.type === 'blank') {
+        // Separators match the page before them, or the first page of the next
+        // PDF, and are A4 when there is neither
+        let neighbour: PDFPage | null = null;
+        if (mergedPdf.getPageCount() > 0) {
+          neighbour = mergedPdf.getPage(mergedPdf.getPageCount() - 1);
+        } else {
+          const nextFile = manifest
+            .slice(manifest.indexOf(entry))
+            .find((other): other is Extract<ManifestEntry, { type: 'file' }> => other.type === 'file');
+          const nextSource = nextFile ? await getSource(nextFile.file) : null;
+          neighbour = nextSource?.type === 'pdf' ? nextSource.pdf.getPage(0) : null;
+        }
+        const [width, height] = neighbour ? getVisibleSize(neighbour) : PAPER_SIZES.a4;
+        mergedPdf.addPage(pageSize === 'original' ? [width, height] : orientPaper(pageSize, width, height));
+        continue;
+      }
+
+      const file = files[entry.file];
+      const source = await getSource(entry.file);
+      const pages = selections.get(entry)!;
+      const startPage = mergedPdf.getPageCount() + 1;
+      if (source.type === 'image') {
+        await addImagePages(mergedPdf, source.bytes, pages, imageOptions);
+      } else {
+        const copiedPages = await mergedPdf.copyPages(source.pdf, pages.map((page) => page - 1));
+        copiedPages.forEach((page) => mergedPdf.addPage(page));
+      }
+      if (pageSize !== 'original') {
+        mergedPdf.getPages().slice(startPage - 1).forEach((page) => fitPageToPaper(page, pageSize));
+      }
+
+      if (bookmarks || toc) {
+        // copyPages drops the source outline, so it is rebuilt under an entry for the file
+        const pageMap = new Map(pages.map((page, i) => [page, startPage + i]));
+        outline.push({
+          title: file.name,
+          pageNumber: startPage,
+          children: bookmarks && source.type === 'pdf' ? await readFileOutline(file, pageMap) : [],
+        });
+      }
+    }
 
-    // Process each file
-    for (const file of files) {
-      const pdfBytes = await file.arrayBuffer();
-      const pdf = await PDFDocument.load(pdfBytes);
-      const copiedPages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
-      copiedPages.forEach((page) => mergedPdf.addPage(page));
+    if (toc) {
+      outline = await insertTableOfContents(mergedPdf, outline);
+    }
+    if (bookmarks) {
+      writeOutline(mergedPdf, outline);
     }
 
     // Save the merged PDF
@@ -34,10 +240,16 @@ export async function POST(req: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
     console.error('Error merging PDFs:', error);
     return NextResponse.json(
       { error: 'Failed to merge PDFs' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readPdfProperties } from '@/lib/pdf-metadata';
+
+// Returns the document's properties. It is a POST because uploads are never
+// stored on the server, so the file has to come in the request body.
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    const properties = await readPdfProperties(await file.arrayBuffer());
+    return NextResponse.json({ filename: file.name, properties });
+  } catch (error) {
+    console.error('Error reading PDF properties:', error);
+    return NextResponse.json(
+      { error: 'Failed to read PDF properties' },
+      { status: 500 }
+    );
+  }
+}
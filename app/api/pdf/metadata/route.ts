@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PdfMetadata, writePdfMetadata } from '@/lib/pdf-metadata';
+import { isPdfEncrypted } from '@/lib/pdf-security';
+import { formatError } from '@/lib/utils';
+
+const METADATA_FIELDS: (keyof PdfMetadata)[] = [
+  'title',
+  'author',
+  'subject',
+  'keywords',
+  'creator',
+  'producer',
+  'creationDate',
+  'modificationDate',
+];
+
+// Returns the PDF rewritten with the new metadata. Properties are read by
+// POST /api/pdf/metadata/read.
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const metadataField = formData.get('metadata') as string | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (!metadataField) {
+      return NextResponse.json(
+        { error: 'No metadata provided' },
+        { status: 400 }
+      );
+    }
+
+    const pdfBytes = await file.arrayBuffer();
+
+    if (await isPdfEncrypted(pdfBytes)) {
+      return NextResponse.json(
+        { error: 'This PDF is password-protected. Unlock it before editing its metadata.' },
+        { status: 400 }
+      );
+    }
+
+    let updatedPdfBytes: Uint8Array;
+    try {
+      const values = JSON.parse(metadataField);
+      const metadata = Object.fromEntries(
+        METADATA_FIELDS.map((field) => [field, typeof values[field] === 'string' ? values[field] : ''])
+      ) as unknown as PdfMetadata;
+      updatedPdfBytes = await writePdfMetadata(pdfBytes, metadata);
+    } catch (error) {
+      return NextResponse.json(
+        { error: formatError(error) },
+        { status: 400 }
+      );
+    }
+
+    return new NextResponse(updatedPdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${file.name}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error updating PDF metadata:', error);
+    return NextResponse.json(
+      { error: 'Failed to update PDF metadata' },
+      { status: 500 }
+    );
+  }
+}
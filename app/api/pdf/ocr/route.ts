@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pdfjs } from '@/lib/pdf-worker';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { parsePageRanges } from '@/lib/page-ranges';
+import { extractPageTexts, makeSearchablePdf } from '@/lib/ocr';
+import { formatError } from '@/lib/utils';
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const output = (formData.get('output') as 'pdf' | 'text') || 'pdf';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (output !== 'pdf' && output !== 'text') {
+      return NextResponse.json(
+        { error: `Unsupported output: ${output}` },
+        { status: 400 }
+      );
+    }
+
+    const pdfDoc = await loadUploadedPdf(file);
+    const pdfjsDoc = await pdfjs.getDocument({
+      data: new Uint8Array(await file.arrayBuffer()),
+      useWorkerFetch: false,
+      isEvalSupported: false,
+      useSystemFonts: true
+    }).promise;
+
+    try {
+      if (output === 'text') {
+        let pages: number[];
+        try {
+          pages = parsePageRanges(formData.get('pages') as string | null, pdfjsDoc.numPages);
+        } catch (error) {
+          return NextResponse.json(
+            { error: formatError(error) },
+            { status: 400 }
+          );
+        }
+
+        return NextResponse.json({ pages: await extractPageTexts(pdfjsDoc, { pages }) });
+      }
+
+      const { bytes, recognisedPages } = await makeSearchablePdf(pdfDoc, pdfjsDoc);
+      if (recognisedPages.length === 0) {
+        return NextResponse.json(
+          { error: 'No scanned pages found. Every page already has a text layer or no recognisable text.' },
+          { status: 400 }
+        );
+      }
+
+      return new NextResponse(bytes, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="searchable-${file.name}"`,
+        },
+      });
+    } finally {
+      await pdfjsDoc.destroy();
+    }
+  } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error running OCR:', error);
+    return NextResponse.json(
+      { error: 'Failed to run OCR on PDF' },
+      { status: 500 }
+    );
+  }
+}
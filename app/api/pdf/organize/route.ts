@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PDFDocument } from 'pdf-lib';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+
+type ManifestEntry =
+  | { type: 'page'; page: number }
+  | { type: 'blank'; width?: number; height?: number };
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    let manifest: ManifestEntry[];
+    try {
+      manifest = JSON.parse((formData.get('manifest') as string) || '[]');
+    } catch {
+      return NextResponse.json(
+        { error: 'The page manifest must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(manifest) || manifest.length === 0) {
+      return NextResponse.json(
+        { error: 'The page manifest must contain at least one page' },
+        { status: 400 }
+      );
+    }
+
+    // Load the source PDF
+    const sourcePdf = await loadUploadedPdf(file);
+    const pageCount = sourcePdf.getPageCount();
+
+    // Validate the manifest
+    for (const entry of manifest) {
+      if (entry.type === 'page') {
+        if (!Number.isInteger(entry.page) || entry.page < 1 || entry.page > pageCount) {
+          return NextResponse.json(
+            { error: `Invalid page: ${entry.page}. Document has ${pageCount} pages.` },
+            { status: 400 }
+          );
+        }
+      } else if (entry.type === 'blank') {
+        // Omitted sizes fall back to the previous page; given ones must be usable
+        const sizes = [entry.width, entry.height].filter((size) => size !== undefined);
+        if (sizes.some((size) => typeof size !== 'number' || !Number.isFinite(size) || size <= 0)) {
+          return NextResponse.json(
+            { error: 'Blank page width and height must be positive numbers' },
+            { status: 400 }
+          );
+        }
+      } else {
+        return NextResponse.json(
+          { error: `Unknown manifest entry type: ${(entry as { type: string }).type}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Copy each referenced page once; duplicates reuse the same source index
+    const sourceIndices = Array.from(new Set(
+      manifest.flatMap((entry) => entry.type === 'page' ? [entry.page - 1] : [])
+    ));
+    const newPdf = await PDFDocument.create();
+    const copies = new Map<number, number>();
+    const copiedPages = await newPdf.copyPages(sourcePdf, sourceIndices);
+    sourceIndices.forEach((index, i) => copies.set(index, i));
+
+    // Blank pages default to the size of the page before them
+    let lastSize = sourcePdf.getPage(0).getSize();
+    const usedCopies = new Set<number>();
+
+    for (const entry of manifest) {
+      if (entry.type === 'blank') {
+        const width = entry.width ?? lastSize.width;
+        const height = entry.height ?? lastSize.height;
+        newPdf.addPage([width, height]);
+        continue;
+      }
+
+      const index = entry.page - 1;
+      const copyIndex = copies.get(index)!;
+      // A copied page object can only be added once, so duplicates are copied again
+      const [page] = usedCopies.has(copyIndex)
+        ? await newPdf.copyPages(sourcePdf, [index])
+        : [copiedPages[copyIndex]];
+      usedCopies.add(copyIndex);
+
+      newPdf.addPage(page);
+      lastSize = page.getSize();
+    }
+
+    // Save the organized PDF
+    const newPdfBytes = await newPdf.save();
+
+    return new NextResponse(newPdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="organized-${file.name}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error organizing PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to organize PDF' },
+      { status: 500 }
+    );
+  }
+}
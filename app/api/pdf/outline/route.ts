@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pdfjs } from '@/lib/pdf-worker';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { OutlineEntry, readOutline, writeOutline } from '@/lib/outline-utils';
+import { insertTableOfContents } from '@/lib/table-of-contents';
+import { formatError } from '@/lib/utils';
+
+// Checks an outline sent by the client and keeps only the fields we write
+function parseOutlineEntries(value: unknown, pageCount: number): OutlineEntry[] {
+  if (!Array.isArray(value)) {
+    throw new Error('The outline must be a list of bookmarks');
+  }
+
+  return value.map((entry) => {
+    if (typeof entry?.title !== 'string') {
+      throw new Error('Every bookmark needs a title');
+    }
+    const pageNumber = entry.pageNumber ?? null;
+    if (pageNumber !== null && (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount)) {
+      throw new Error(`"${entry.title}" points to page ${pageNumber}, but the document has ${pageCount} pages`);
+    }
+    return {
+      title: entry.title,
+      pageNumber,
+      children: parseOutlineEntries(entry.children ?? [], pageCount),
+    };
+  });
+}
+
+// Without `outline` the route returns the document's bookmarks, with it the
+// PDF with its bookmarks replaced
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const outlineField = formData.get('outline') as string | null;
+    const toc = formData.get('toc') === 'true';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    const pdfDoc = await loadUploadedPdf(file, { updateMetadata: false });
+
+    if (!outlineField) {
+      const pdfjsDoc = await pdfjs.getDocument({
+        data: new Uint8Array(await file.arrayBuffer()),
+        useWorkerFetch: false,
+        isEvalSupported: false,
+        useSystemFonts: true
+      }).promise;
+      const outline = await readOutline(pdfjsDoc);
+      await pdfjsDoc.destroy();
+
+      return NextResponse.json({ filename: file.name, pageCount: pdfDoc.getPageCount(), outline });
+    }
+
+    let outline: OutlineEntry[];
+    try {
+      outline = parseOutlineEntries(JSON.parse(outlineField), pdfDoc.getPageCount());
+    } catch (error) {
+      return NextResponse.json(
+        { error: formatError(error) },
+        { status: 400 }
+      );
+    }
+
+    if (toc) {
+      outline = await insertTableOfContents(pdfDoc, outline);
+    }
+    writeOutline(pdfDoc, outline);
+    const updatedPdfBytes = await pdfDoc.save();
+
+    return new NextResponse(updatedPdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${file.name}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error processing PDF outline:', error);
+    return NextResponse.json(
+      { error: 'Failed to process PDF outline' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pdfjs } from '@/lib/pdf-worker';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { buildRedactionPatterns } from '@/lib/redaction-patterns';
+import { RedactionArea, RedactionError, findRedactionMatches, redactPdf, verifyRedaction } from '@/lib/redaction';
+
+function parseJsonField<T>(value: FormDataEntryValue | null, fallback: T): T {
+  return value ? JSON.parse(value as string) : fallback;
+}
+
+const isValidArea = (area: RedactionArea, pageCount: number) =>
+  Number.isInteger(area.page) &&
+  area.page >= 1 &&
+  area.page <= pageCount &&
+  [area.x, area.y, area.width, area.height].every((value) => typeof value === 'number' && isFinite(value)) &&
+  area.width > 0 &&
+  area.height > 0;
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const preview = formData.get('preview') === 'true';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    let patterns: RegExp[];
+    let areas: RedactionArea[];
+    try {
+      patterns = buildRedactionPatterns({
+        terms: parseJsonField<string[]>(formData.get('terms'), []),
+        presets: ((formData.get('presets') as string) || '').split(',').filter(Boolean),
+        regex: (formData.get('regex') as string) || '',
+        caseSensitive: formData.get('caseSensitive') === 'true',
+      });
+      areas = parseJsonField<RedactionArea[]>(formData.get('areas'), []);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? `Invalid redaction search: ${error.message}` : 'Invalid redaction search' },
+        { status: 400 }
+      );
+    }
+
+    const pdfDoc = await loadUploadedPdf(file, { updateMetadata: false });
+    const pdfjsDoc = await pdfjs.getDocument({
+      data: new Uint8Array(await file.arrayBuffer()),
+      useWorkerFetch: false,
+      isEvalSupported: false,
+      useSystemFonts: true
+    }).promise;
+
+    try {
+      const matches = patterns.length > 0 ? await findRedactionMatches(pdfjsDoc, patterns) : [];
+
+      if (preview) {
+        return NextResponse.json({ matches });
+      }
+
+      // Areas picked in the editor plus every match of a search sent along with them
+      const allAreas = [...areas, ...matches.flatMap((match) => match.areas)];
+      if (allAreas.length === 0) {
+        return NextResponse.json(
+          { error: 'Nothing to redact. Select areas or search for text first.' },
+          { status: 400 }
+        );
+      }
+      if (!allAreas.every((area) => isValidArea(area, pdfDoc.getPageCount()))) {
+        return NextResponse.json(
+          { error: 'Invalid redaction area' },
+          { status: 400 }
+        );
+      }
+
+      const redactedBytes = await redactPdf(pdfDoc, pdfjsDoc, allAreas, patterns);
+
+      // The saved file is read back so that nothing is offered as redacted while text under a box or a search hit survives
+      const redactedDoc = await pdfjs.getDocument({
+        data: new Uint8Array(redactedBytes),
+        useWorkerFetch: false,
+        isEvalSupported: false,
+        useSystemFonts: true
+      }).promise;
+      try {
+        await verifyRedaction(redactedDoc, allAreas, patterns);
+      } finally {
+        await redactedDoc.destroy();
+      }
+
+      return new NextResponse(redactedBytes, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="redacted-${file.name}"`,
+        },
+      });
+    } finally {
+      await pdfjsDoc.destroy();
+    }
+  } catch (error) {
+    if (error instanceof PasswordProtectedError || error instanceof RedactionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error redacting PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to redact PDF' },
+      { status: 500 }
+    );
+  }
+}
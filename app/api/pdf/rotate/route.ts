@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { degrees } from 'pdf-lib';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { parsePageRanges } from '@/lib/page-ranges';
+import { formatError } from '@/lib/utils';
+
+interface PageRotation {
+  pages: string;
+  angle: number;
+  mode?: 'relative' | 'absolute';
+}
+
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360;
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    let rotations: PageRotation[];
+    try {
+      rotations = JSON.parse((formData.get('rotations') as string) || '[]');
+    } catch {
+      return NextResponse.json(
+        { error: 'Rotations must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(rotations) || rotations.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one rotation is required' },
+        { status: 400 }
+      );
+    }
+
+    // Load the source PDF
+    const pdfDoc = await loadUploadedPdf(file);
+    const pageCount = pdfDoc.getPageCount();
+    const pages = pdfDoc.getPages();
+
+    // Validate every rotation before touching the document
+    const resolved: { pageNumbers: number[]; rotation: PageRotation }[] = [];
+    for (const rotation of rotations) {
+      if (!Number.isInteger(rotation.angle) || rotation.angle % 90 !== 0) {
+        return NextResponse.json(
+          { error: `Invalid rotation angle: ${rotation.angle}. Use a multiple of 90 degrees.` },
+          { status: 400 }
+        );
+      }
+
+      try {
+        resolved.push({
+          pageNumbers: parsePageRanges(String(rotation.pages ?? ''), pageCount),
+          rotation,
+        });
+      } catch (error) {
+        return NextResponse.json(
+          { error: formatError(error) },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Apply rotations in order so later entries build on earlier ones
+    for (const { pageNumbers, rotation } of resolved) {
+      for (const pageNumber of pageNumbers) {
+        const page = pages[pageNumber - 1];
+        const current = page.getRotation().angle;
+        const angle = rotation.mode === 'absolute'
+          ? normalizeAngle(rotation.angle)
+          : normalizeAngle(current + rotation.angle);
+        page.setRotation(degrees(angle));
+      }
+    }
+
+    // Save the rotated PDF
+    const rotatedPdfBytes = await pdfDoc.save();
+
+    return new NextResponse(rotatedPdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="rotated-${file.name}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error rotating PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to rotate PDF' },
+      { status: 500 }
+    );
+  }
+}
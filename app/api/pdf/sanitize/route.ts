@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { SanitizeOptions, sanitizePdf } from '@/lib/pdf-sanitizer';
+
+// Comment and markup annotations removed unless the request says otherwise
+const DEFAULT_ANNOTATION_TYPES = [
+  'Text',
+  'FreeText',
+  'Highlight',
+  'Underline',
+  'StrikeOut',
+  'Squiggly',
+  'Caret',
+  'Ink',
+  'Stamp',
+  'Popup',
+];
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const includeReport = formData.get('report') === 'true';
+    const annotationTypes = formData.get('annotationTypes');
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Every cleanup step runs unless the form explicitly turns it off
+    const options: SanitizeOptions = {
+      metadata: formData.get('metadata') !== 'false',
+      javascript: formData.get('javascript') !== 'false',
+      attachments: formData.get('attachments') !== 'false',
+      hiddenLayers: formData.get('hiddenLayers') !== 'false',
+      forms: formData.get('forms') !== 'false',
+      thumbnails: formData.get('thumbnails') !== 'false',
+      annotationTypes: annotationTypes !== null
+        ? (annotationTypes as string).split(',').map((type) => type.trim()).filter(Boolean)
+        : DEFAULT_ANNOTATION_TYPES,
+    };
+
+    // Load the source PDF the same way merge does, without touching its metadata
+    const pdfDoc = await loadUploadedPdf(file, { updateMetadata: false });
+    const pdfBytes = new Uint8Array(await file.arrayBuffer());
+    const { bytes, report } = await sanitizePdf(pdfDoc, pdfBytes, options);
+    const filename = `clean-${file.name}`;
+
+    // The report and the PDF travel as separate parts, so the PDF stays binary
+    if (includeReport) {
+      const body = new FormData();
+      body.append('report', JSON.stringify(report));
+      body.append('file', new Blob([Buffer.from(bytes)], { type: 'application/pdf' }), filename);
+      return new NextResponse(body);
+    }
+
+    return new NextResponse(bytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error sanitizing PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to sanitize PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,78 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PDFDocument } from 'pdf-lib';
+import { pdfjs } from '@/lib/pdf-worker';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { readOutline } from '@/lib/outline-utils';
+import { createZipArchive, pageFileName } from '@/lib/zip-utils';
 
 interface PageRange {
   start: number;
   end: number;
 }
 
+type SplitMode = 'ranges' | 'pages' | 'every' | 'bookmarks';
+
+interface SplitPart extends PageRange {
+  name: string;
+  title?: string;
+}
+
+const SPLIT_MODES: SplitMode[] = ['ranges', 'pages', 'every', 'bookmarks'];
+
+const padNumber = (value: number, total: number) =>
+  String(value).padStart(Math.max(3, String(total).length), '0');
+
+const slugify = (title: string) =>
+  title
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 60) || 'section';
+
+async function getBookmarkParts(pdfBytes: ArrayBuffer, baseName: string, pageCount: number) {
+  const pdfDoc = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBytes),
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true
+  }).promise;
+
+  // Only top-level bookmarks start a new file
+  const starts = (await readOutline(pdfDoc))
+    .filter((entry) => entry.pageNumber !== null)
+    .map((entry) => ({ title: entry.title, page: entry.pageNumber as number }))
+    .sort((a, b) => a.page - b.page)
+    .filter((entry, i, all) => i === 0 || entry.page !== all[i - 1].page);
+
+  await pdfDoc.destroy();
+
+  if (starts.length === 0) {
+    return [];
+  }
+
+  // Pages before the first bookmark (cover, front matter) get their own file
+  if (starts[0].page > 1) {
+    starts.unshift({ title: 'Front matter', page: 1 });
+  }
+
+  return starts.map((entry, i): SplitPart => {
+    const end = i < starts.length - 1 ? starts[i + 1].page - 1 : pageCount;
+    return {
+      start: entry.page,
+      end,
+      title: entry.title,
+      name: `${baseName}-${padNumber(i + 1, starts.length)}-${slugify(entry.title)}.pdf`,
+    };
+  });
+}
+
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData();
     const file = formData.get('file') as File;
-    const ranges = JSON.parse(formData.get('ranges') as string) as PageRange[];
+    const mode = ((formData.get('mode') as string) || 'ranges') as SplitMode;
+    const pagesPerFile = parseInt((formData.get('pagesPerFile') as string) || '1', 10);
 
     if (!file) {
       return NextResponse.json(
@@ -19,49 +81,160 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (!SPLIT_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `Unsupported split mode: ${mode}` },
+        { status: 400 }
+      );
+    }
+
+    let ranges: PageRange[];
+    try {
+      ranges = JSON.parse((formData.get('ranges') as string) || '[]');
+    } catch {
+      return NextResponse.json(
+        { error: 'Page ranges must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
     // Load the source PDF
     const pdfBytes = await file.arrayBuffer();
-    const sourcePdf = await PDFDocument.load(pdfBytes);
+    const sourcePdf = await loadUploadedPdf(file);
     const pageCount = sourcePdf.getPageCount();
+    const baseName = file.name.replace(/\.pdf$/i, '');
+
+    // Work out which pages go into each output file
+    let parts: SplitPart[] = [];
+    switch (mode) {
+      case 'ranges': {
+        if (!Array.isArray(ranges) || ranges.length === 0) {
+          return NextResponse.json(
+            { error: 'At least one page range is required' },
+            { status: 400 }
+          );
+        }
+
+        // Validate page ranges. Files are named after their range, so a
+        // repeated range would overwrite the earlier file in the archive.
+        const seenRanges = new Set<string>();
+        for (const range of ranges) {
+          if (!Number.isInteger(range?.start) || !Number.isInteger(range?.end)) {
+            return NextResponse.json(
+              { error: 'Page ranges must start and end on whole page numbers' },
+              { status: 400 }
+            );
+          }
+          if (range.start < 1 || range.end > pageCount || range.start > range.end) {
+            return NextResponse.json(
+              { error: `Invalid page range: ${range.start}-${range.end}. Document has ${pageCount} pages.` },
+              { status: 400 }
+            );
+          }
+          const key = `${range.start}-${range.end}`;
+          if (seenRanges.has(key)) {
+            return NextResponse.json(
+              { error: `Duplicate page range: ${key}` },
+              { status: 400 }
+            );
+          }
+          seenRanges.add(key);
+        }
+
+        parts = ranges.map((range) => ({
+          ...range,
+          name: `${baseName}-p${padNumber(range.start, pageCount)}-${padNumber(range.end, pageCount)}.pdf`,
+        }));
+        break;
+      }
+
+      case 'pages': {
+        parts = Array.from({ length: pageCount }, (_, i) => ({
+          start: i + 1,
+          end: i + 1,
+          name: pageFileName(baseName, i + 1, pageCount, 'pdf'),
+        }));
+        break;
+      }
+
+      case 'every': {
+        if (!Number.isInteger(pagesPerFile) || pagesPerFile < 1) {
+          return NextResponse.json(
+            { error: 'Pages per file must be a positive whole number' },
+            { status: 400 }
+          );
+        }
 
-    // Validate page ranges
-    for (const range of ranges) {
-      if (range.start < 1 || range.end > pageCount || range.start > range.end) {
-        return NextResponse.json(
-          { error: `Invalid page range: ${range.start}-${range.end}. Document has ${pageCount} pages.` },
-          { status: 400 }
-        );
+        for (let start = 1; start <= pageCount; start += pagesPerFile) {
+          const end = Math.min(start + pagesPerFile - 1, pageCount);
+          parts.push({
+            start,
+            end,
+            name: `${baseName}-p${padNumber(start, pageCount)}-${padNumber(end, pageCount)}.pdf`,
+          });
+        }
+        break;
+      }
+
+      case 'bookmarks': {
+        parts = await getBookmarkParts(pdfBytes, baseName, pageCount);
+        if (parts.length === 0) {
+          return NextResponse.json(
+            { error: 'This PDF has no bookmarks to split at' },
+            { status: 400 }
+          );
+        }
+        break;
       }
     }
 
-    // Create a new PDF with the specified pages
-    const newPdf = await PDFDocument.create();
-    
-    for (const range of ranges) {
+    // Create one PDF per part
+    const entries: { name: string; data: Uint8Array | string }[] = [];
+    for (const part of parts) {
+      const newPdf = await PDFDocument.create();
       const pages = await newPdf.copyPages(
         sourcePdf,
         Array.from(
-          { length: range.end - range.start + 1 },
-          (_, i) => range.start + i - 1
+          { length: part.end - part.start + 1 },
+          (_, i) => part.start + i - 1
         )
       );
       pages.forEach((page) => newPdf.addPage(page));
+      entries.push({ name: part.name, data: await newPdf.save() });
     }
 
-    // Save the split PDF
-    const newPdfBytes = await newPdf.save();
+    // Describe the archive contents so downstream tooling can map files to pages
+    const manifest = {
+      source: file.name,
+      mode,
+      pageCount,
+      files: parts.map(({ name, start, end, title }) => ({
+        name,
+        pages: { start, end },
+        ...(title ? { title } : {}),
+      })),
+    };
+    entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+
+    const archive = await createZipArchive(entries);
 
-    return new NextResponse(newPdfBytes, {
+    return new NextResponse(archive, {
       headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': 'attachment; filename="split.pdf"',
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${baseName}-split.zip"`,
       },
     });
   } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
     console.error('Error splitting PDF:', error);
     return NextResponse.json(
       { error: 'Failed to split PDF' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
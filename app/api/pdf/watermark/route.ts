@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PDFPage, PDFArray, PDFRef, degrees, rgb } from 'pdf-lib';
+import { PasswordProtectedError, loadUploadedPdf } from '@/lib/pdf-security';
+import { parsePageRanges } from '@/lib/page-ranges';
+import { STANDARD_FONTS } from '@/lib/pdf-fonts';
+import { formatError } from '@/lib/utils';
+
+type WatermarkPlacement = 'center' | 'tile';
+type WatermarkLayer = 'over' | 'behind';
+
+// Gap between tiles, relative to the watermark's rotated bounding box
+const TILE_SPACING = 0.5;
+
+function parseColor(hex: string) {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) {
+    throw new Error(`Invalid colour: ${hex}. Use a hex value like #ff0000.`);
+  }
+  const value = parseInt(match[1], 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+/**
+ * Returns the origins at which a box of the given size, rotated around its
+ * own centre, should be drawn so that its centre lands on each target point.
+ */
+function getPlacements(
+  page: PDFPage,
+  width: number,
+  height: number,
+  angle: number,
+  placement: WatermarkPlacement
+) {
+  // Placed within the visible crop box, which need not start at the origin
+  const { x: left, y: bottom, width: pageWidth, height: pageHeight } = page.getCropBox();
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  const toOrigin = (cx: number, cy: number) => ({
+    x: left + cx - (width / 2) * cos + (height / 2) * sin,
+    y: bottom + cy - (width / 2) * sin - (height / 2) * cos,
+  });
+
+  if (placement === 'center') {
+    return [toOrigin(pageWidth / 2, pageHeight / 2)];
+  }
+
+  const boxWidth = Math.abs(width * cos) + Math.abs(height * sin);
+  const boxHeight = Math.abs(width * sin) + Math.abs(height * cos);
+  const stepX = boxWidth * (1 + TILE_SPACING);
+  const stepY = boxHeight * (1 + TILE_SPACING);
+  const origins = [];
+
+  for (let row = 0, cy = stepY / 2; cy - boxHeight / 2 < pageHeight; row++, cy += stepY) {
+    // Offset every other row so tiles form a staggered pattern
+    const offset = row % 2 === 0 ? 0 : stepX / 2;
+    for (let cx = stepX / 2 - offset; cx - boxWidth / 2 < pageWidth; cx += stepX) {
+      origins.push(toOrigin(cx, cy));
+    }
+  }
+
+  return origins;
+}
+
+// Moves content streams added since `before` to the start of the page so they render underneath
+function moveNewContentBehind(page: PDFPage, before: Set<PDFRef>) {
+  const contents = page.node.Contents();
+  if (!(contents instanceof PDFArray)) return;
+
+  const refs = contents.asArray();
+  const added = refs.filter((ref) => ref instanceof PDFRef && !before.has(ref));
+  const existing = refs.filter((ref) => !added.includes(ref));
+
+  [...added, ...existing].forEach((ref, index) => contents.set(index, ref));
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const type = (formData.get('type') as string) || 'text';
+    const text = (formData.get('text') as string) || '';
+    const image = formData.get('image') as File | null;
+    const fontName = (formData.get('font') as string) || 'helvetica-bold';
+    const fontSize = Number(formData.get('fontSize')) || 48;
+    const opacity = formData.get('opacity') ? Number(formData.get('opacity')) : 0.3;
+    const rotation = Number(formData.get('rotation')) || 0;
+    const imageScale = Number(formData.get('imageScale')) || 0.5;
+    const placement = ((formData.get('placement') as string) || 'center') as WatermarkPlacement;
+    const layer = ((formData.get('layer') as string) || 'over') as WatermarkLayer;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No PDF file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (type === 'text' && !text.trim()) {
+      return NextResponse.json(
+        { error: 'Watermark text is required' },
+        { status: 400 }
+      );
+    }
+
+    if (type === 'image' && !image) {
+      return NextResponse.json(
+        { error: 'A PNG or JPEG watermark image is required' },
+        { status: 400 }
+      );
+    }
+
+    if (type !== 'text' && type !== 'image') {
+      return NextResponse.json(
+        { error: `Unsupported watermark type: ${type}` },
+        { status: 400 }
+      );
+    }
+
+    if (!STANDARD_FONTS[fontName]) {
+      return NextResponse.json(
+        { error: `Unsupported font: ${fontName}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(opacity >= 0 && opacity <= 1)) {
+      return NextResponse.json(
+        { error: 'Opacity must be between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    // Load the source PDF
+    const pdfDoc = await loadUploadedPdf(file);
+    const pages = pdfDoc.getPages();
+
+    let pageNumbers: number[];
+    let color;
+    try {
+      pageNumbers = parsePageRanges(formData.get('pages') as string | null, pages.length);
+      color = parseColor((formData.get('color') as string) || '#808080');
+    } catch (error) {
+      return NextResponse.json(
+        { error: formatError(error) },
+        { status: 400 }
+      );
+    }
+
+    // Embed the watermark resources once and reuse them on every page
+    const font = type === 'text' ? await pdfDoc.embedFont(STANDARD_FONTS[fontName]) : null;
+    let embeddedImage;
+    if (type === 'image' && image) {
+      const imageBytes = await image.arrayBuffer();
+      const isPng = image.type === 'image/png' || image.name.toLowerCase().endsWith('.png');
+      embeddedImage = isPng ? await pdfDoc.embedPng(imageBytes) : await pdfDoc.embedJpg(imageBytes);
+    }
+
+    for (const pageNumber of pageNumbers) {
+      const page = pages[pageNumber - 1];
+      // Compensate for /Rotate so the watermark angle matches what the reader sees
+      const angle = rotation + page.getRotation().angle;
+
+      page.node.normalize();
+      const contents = page.node.Contents();
+      const before = new Set(
+        contents instanceof PDFArray
+          ? contents.asArray().filter((ref): ref is PDFRef => ref instanceof PDFRef)
+          : []
+      );
+
+      if (embeddedImage) {
+        const { width: pageWidth } = page.getSize();
+        const { width, height } = embeddedImage.scale((pageWidth * imageScale) / embeddedImage.width);
+        for (const { x, y } of getPlacements(page, width, height, angle, placement)) {
+          page.drawImage(embeddedImage, { x, y, width, height, rotate: degrees(angle), opacity });
+        }
+      } else if (font) {
+        let width: number;
+        try {
+          width = font.widthOfTextAtSize(text, fontSize);
+        } catch {
+          return NextResponse.json(
+            { error: 'The watermark text contains characters the selected font cannot display' },
+            { status: 400 }
+          );
+        }
+        const height = font.heightAtSize(fontSize, { descender: false });
+        for (const { x, y } of getPlacements(page, width, height, angle, placement)) {
+          page.drawText(text, { x, y, size: fontSize, font, color, rotate: degrees(angle), opacity });
+        }
+      }
+
+      if (layer === 'behind') {
+        moveNewContentBehind(page, before);
+      }
+    }
+
+    // Save the watermarked PDF
+    const watermarkedPdfBytes = await pdfDoc.save();
+
+    return new NextResponse(watermarkedPdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="watermarked-${file.name}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PasswordProtectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error watermarking PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to watermark PDF' },
+      { status: 500 }
+    );
+  }
+}
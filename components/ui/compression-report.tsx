@@ -0,0 +1,104 @@
+'use client';
+
+import { Card, CardContent } from './card';
+import { ScrollArea } from './scroll-area';
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+
+export interface CompressionReport {
+  strategy: 'preserve' | 'rasterize';
+  level: 'low' | 'medium' | 'high';
+  originalSize: number;
+  finalSize: number;
+  targetSize?: number;
+  targetMet?: boolean;
+  attempts: { strategy: 'preserve' | 'rasterize'; level: 'low' | 'medium' | 'high'; size: number }[];
+  pages: { page: number; imageBytes: number }[];
+}
+
+interface CompressionReportCardProps {
+  report: CompressionReport;
+}
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const STRATEGY_LABELS: Record<CompressionReport['strategy'], string> = {
+  preserve: 'Keep text & links',
+  rasterize: 'Rasterize pages',
+};
+
+export function CompressionReportCard({ report }: CompressionReportCardProps) {
+  const savings = Math.round((1 - report.finalSize / report.originalSize) * 100);
+  // Target-size mode falls back to rasterizing when keeping the structure is not enough
+  const fellBack = report.attempts.some((attempt) => attempt.strategy !== report.attempts[0].strategy);
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-4">
+        <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+          <div>
+            <p className="text-muted-foreground">Original</p>
+            <p className="font-medium">{formatFileSize(report.originalSize)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Compressed</p>
+            <p className="font-medium">
+              {formatFileSize(report.finalSize)} ({savings >= 0 ? `${savings}% smaller` : `${-savings}% larger`})
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Strategy</p>
+            <p className="font-medium">{STRATEGY_LABELS[report.strategy]}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Level</p>
+            <p className="font-medium capitalize">{report.level}</p>
+          </div>
+        </div>
+
+        {report.targetSize !== undefined && (
+          <div className="flex items-center gap-2 text-sm">
+            {report.targetMet ? (
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+            )}
+            {report.targetMet
+              ? `Fits the ${formatFileSize(report.targetSize)} target`
+              : `Could not reach ${formatFileSize(report.targetSize)}; this is the smallest result`}
+            {report.attempts.length > 1 && (
+              <span className="text-muted-foreground">
+                (tried {report.attempts
+                  .map((attempt) => `${fellBack ? `${STRATEGY_LABELS[attempt.strategy]} ` : ''}${attempt.level}: ${formatFileSize(attempt.size)}`)
+                  .join(', ')})
+              </span>
+            )}
+          </div>
+        )}
+
+        {fellBack && report.strategy === 'rasterize' && (
+          <div className="flex items-center gap-2 text-sm">
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+            Pages were rasterized for the target size, so text can no longer be selected or searched
+          </div>
+        )}
+
+        {report.pages.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Image data per page</p>
+            <ScrollArea className="h-[160px] pr-4">
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm md:grid-cols-4">
+                {report.pages.map(({ page, imageBytes }) => (
+                  <div key={page} className="flex justify-between">
+                    <span className="text-muted-foreground">Page {page}</span>
+                    <span>{formatFileSize(imageBytes)}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { Button } from './button';
+import { Input } from './input';
+import { Label } from './label';
+import { Switch } from './switch';
+import { Textarea } from './textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import type { CreatePdfOptions } from '@/lib/markdown-pdf';
+
+export interface CreatePdfOptionsValue extends CreatePdfOptions {
+  content: string;
+  // A .md or .txt file used instead of the typed content
+  file: File | null;
+  // Pictures the Markdown refers to by file name
+  images: File[];
+}
+
+interface CreatePdfOptionsProps {
+  value: CreatePdfOptionsValue;
+  onChange: (value: CreatePdfOptionsValue) => void;
+  disabled?: boolean;
+}
+
+export const DEFAULT_CREATE_PDF_OPTIONS: CreatePdfOptionsValue = {
+  content: '',
+  file: null,
+  images: [],
+  format: 'markdown',
+  template: 'clean',
+  pageSize: 'A4',
+  orientation: 'portrait',
+  margin: 56,
+  pageNumbers: true,
+  title: '',
+};
+
+const TEMPLATE_OPTIONS: { value: CreatePdfOptions['template']; label: string }[] = [
+  { value: 'clean', label: 'Clean' },
+  { value: 'classic', label: 'Classic' },
+  { value: 'compact', label: 'Compact' },
+];
+
+// Margins are entered in millimetres and sent in points
+const MM_TO_POINTS = 72 / 25.4;
+
+export function CreatePdfOptionsForm({ value, onChange, disabled = false }: CreatePdfOptionsProps) {
+  const update = <K extends keyof CreatePdfOptionsValue>(key: K, fieldValue: CreatePdfOptionsValue[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  const handleFileChange = (file: File | null) => {
+    // Plain .txt files are almost never meant as Markdown
+    onChange({
+      ...value,
+      file,
+      format: file ? (/\.txt$/i.test(file.name) ? 'text' : 'markdown') : value.format,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['markdown', 'text'] as const).map((format) => (
+              <Button
+                key={format}
+                variant={value.format === format ? 'default' : 'outline'}
+                onClick={() => update('format', format)}
+                disabled={disabled}
+              >
+                {format === 'markdown' ? 'Markdown' : 'Plain Text'}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {TEMPLATE_OPTIONS.map((template) => (
+              <Button
+                key={template.value}
+                variant={value.template === template.value ? 'default' : 'outline'}
+                onClick={() => update('template', template.value)}
+                disabled={disabled}
+              >
+                {template.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Title</Label>
+        <Input
+          value={value.title}
+          onChange={(e) => update('title', e.target.value)}
+          placeholder="Used for the file name and document properties"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Content</Label>
+        <Textarea
+          value={value.content}
+          onChange={(e) => update('content', e.target.value)}
+          placeholder={value.format === 'markdown' ? '# Heading\n\nSome **bold** text, a list and a table...' : 'Type or paste text'}
+          className="min-h-[240px] font-mono text-sm"
+          disabled={disabled || !!value.file}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Or upload a file (.md or .txt)</Label>
+          <Input
+            type="file"
+            accept=".md,.markdown,.txt,text/markdown,text/plain"
+            onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+            disabled={disabled}
+          />
+        </div>
+        {value.format === 'markdown' && (
+          <div className="space-y-2">
+            <Label>Images referenced by file name</Label>
+            <Input
+              type="file"
+              accept="image/png,image/jpeg,image/webp,image/gif"
+              multiple
+              onChange={(e) => update('images', Array.from(e.target.files || []))}
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Page Size</Label>
+          <Select
+            value={value.pageSize}
+            onValueChange={(pageSize) => update('pageSize', pageSize as CreatePdfOptions['pageSize'])}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="A4">A4</SelectItem>
+              <SelectItem value="LETTER">Letter</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Orientation</Label>
+          <Select
+            value={value.orientation}
+            onValueChange={(orientation) => update('orientation', orientation as CreatePdfOptions['orientation'])}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="portrait">Portrait</SelectItem>
+              <SelectItem value="landscape">Landscape</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Margin (mm)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={50}
+            value={Math.round(value.margin / MM_TO_POINTS)}
+            onChange={(e) => update('margin', (parseInt(e.target.value) || 0) * MM_TO_POINTS)}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="create-page-numbers"
+          checked={value.pageNumbers}
+          onCheckedChange={(pageNumbers) => update('pageNumbers', pageNumbers)}
+          disabled={disabled}
+        />
+        <Label htmlFor="create-page-numbers">Number the pages</Label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { Input } from './input';
+import { Label } from './label';
+import { Switch } from './switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import { FONT_OPTIONS } from './watermark-options';
+
+export interface HeaderFooterOptionsValue {
+  headerLeft: string;
+  headerCenter: string;
+  headerRight: string;
+  footerLeft: string;
+  footerCenter: string;
+  footerRight: string;
+  font: string;
+  fontSize: number;
+  marginX: number;
+  marginY: number;
+  startNumber: number;
+  batesPrefix: string;
+  batesStart: number;
+  batesDigits: number;
+  skipPages: string;
+  countSkipped: boolean;
+}
+
+interface HeaderFooterOptionsProps {
+  value: HeaderFooterOptionsValue;
+  onChange: (value: HeaderFooterOptionsValue) => void;
+  disabled?: boolean;
+}
+
+export const DEFAULT_HEADER_FOOTER_OPTIONS: HeaderFooterOptionsValue = {
+  headerLeft: '',
+  headerCenter: '',
+  headerRight: '',
+  footerLeft: '',
+  footerCenter: 'Page {page} of {total}',
+  footerRight: '',
+  font: 'helvetica',
+  fontSize: 10,
+  marginX: 36,
+  marginY: 24,
+  startNumber: 1,
+  batesPrefix: '',
+  batesStart: 1,
+  batesDigits: 6,
+  skipPages: '',
+  countSkipped: false,
+};
+
+const POSITIONS = [
+  { key: 'headerLeft', label: 'Header Left' },
+  { key: 'headerCenter', label: 'Header Center' },
+  { key: 'headerRight', label: 'Header Right' },
+  { key: 'footerLeft', label: 'Footer Left' },
+  { key: 'footerCenter', label: 'Footer Center' },
+  { key: 'footerRight', label: 'Footer Right' },
+] as const;
+
+export function HeaderFooterOptions({ value, onChange, disabled = false }: HeaderFooterOptionsProps) {
+  const update = <K extends keyof HeaderFooterOptionsValue>(key: K, fieldValue: HeaderFooterOptionsValue[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        {POSITIONS.map(({ key, label }) => (
+          <div key={key} className="space-y-2">
+            <Label>{label}</Label>
+            <Input
+              value={value[key]}
+              onChange={(e) => update(key, e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Use {'{page}'}, {'{total}'}, {'{bates}'} and {'{date}'} as placeholders, e.g. &quot;Page {'{page}'} of {'{total}'}&quot;.
+      </p>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label>Font</Label>
+          <Select value={value.font} onValueChange={(font) => update('font', font)} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FONT_OPTIONS.map((font) => (
+                <SelectItem key={font.value} value={font.value}>
+                  {font.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Font Size</Label>
+          <Input
+            type="number"
+            min={4}
+            value={value.fontSize}
+            onChange={(e) => update('fontSize', parseInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Side Margin (pt)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={value.marginX}
+            onChange={(e) => update('marginX', parseInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Top/Bottom Margin (pt)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={value.marginY}
+            onChange={(e) => update('marginY', parseInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label>First Page Number</Label>
+          <Input
+            type="number"
+            value={value.startNumber}
+            onChange={(e) => update('startNumber', parseInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Bates Prefix</Label>
+          <Input
+            value={value.batesPrefix}
+            onChange={(e) => update('batesPrefix', e.target.value)}
+            placeholder="e.g. ACME-"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>First Bates Number</Label>
+          <Input
+            type="number"
+            min={0}
+            value={value.batesStart}
+            onChange={(e) => update('batesStart', parseInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Bates Digits</Label>
+          <Input
+            type="number"
+            min={1}
+            max={12}
+            value={value.batesDigits}
+            onChange={(e) => update('batesDigits', parseInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Skip Pages</Label>
+          <Input
+            value={value.skipPages}
+            onChange={(e) => update('skipPages', e.target.value)}
+            placeholder="e.g. 1 for the cover page"
+            disabled={disabled}
+          />
+        </div>
+        <div className="flex items-center gap-2 self-end pb-2">
+          <Switch
+            id="count-skipped"
+            checked={value.countSkipped}
+            onCheckedChange={(checked) => update('countSkipped', checked)}
+            disabled={disabled}
+          />
+          <Label htmlFor="count-skipped">Skipped pages still use a number</Label>
+        </div>
+      </div>
+    </div>
+  );
+}
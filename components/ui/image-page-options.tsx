@@ -0,0 +1,118 @@
+'use client';
+
+import { Input } from './input';
+import { Label } from './label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import type { ImagePageOptions } from '@/lib/image-pages';
+
+interface ImagePageOptionsProps {
+  value: ImagePageOptions;
+  onChange: (value: ImagePageOptions) => void;
+  disabled?: boolean;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePageOptions = {
+  pageSize: 'a4',
+  orientation: 'auto',
+  margin: 0,
+  fit: 'fit',
+};
+
+const PAGE_SIZE_OPTIONS: { value: ImagePageOptions['pageSize']; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'image', label: 'Same as image' },
+];
+
+const ORIENTATION_OPTIONS: { value: ImagePageOptions['orientation']; label: string }[] = [
+  { value: 'auto', label: 'Match image' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'landscape', label: 'Landscape' },
+];
+
+const FIT_OPTIONS: { value: ImagePageOptions['fit']; label: string }[] = [
+  { value: 'fit', label: 'Fit (whole image)' },
+  { value: 'fill', label: 'Fill (crop to page)' },
+];
+
+// Margins are entered in millimetres and sent in points
+const MM_TO_POINTS = 72 / 25.4;
+
+export function ImagePageOptionsForm({ value, onChange, disabled = false }: ImagePageOptionsProps) {
+  const update = <K extends keyof ImagePageOptions>(key: K, fieldValue: ImagePageOptions[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+      <div className="space-y-2">
+        <Label>Image Page Size</Label>
+        <Select
+          value={value.pageSize}
+          onValueChange={(pageSize) => update('pageSize', pageSize as ImagePageOptions['pageSize'])}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Orientation</Label>
+        <Select
+          value={value.orientation}
+          onValueChange={(orientation) => update('orientation', orientation as ImagePageOptions['orientation'])}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ORIENTATION_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Fit</Label>
+        <Select
+          value={value.fit}
+          onValueChange={(fit) => update('fit', fit as ImagePageOptions['fit'])}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FIT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Margin (mm)</Label>
+        <Input
+          type="number"
+          min={0}
+          max={50}
+          value={Math.round(value.margin / MM_TO_POINTS)}
+          onChange={(e) => update('margin', (parseInt(e.target.value) || 0) * MM_TO_POINTS)}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
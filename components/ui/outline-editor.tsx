@@ -0,0 +1,254 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from './button';
+import { Input } from './input';
+import { Label } from './label';
+import { Alert, AlertDescription } from './alert';
+import type { OutlineEntry } from '@/lib/outline-utils';
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  BookmarkPlus,
+  IndentDecrease,
+  IndentIncrease,
+  Loader2,
+  Trash2,
+} from 'lucide-react';
+
+interface OutlineEditorProps {
+  file: File;
+  onOutlineChange: (outline: OutlineEntry[]) => void;
+  disabled?: boolean;
+}
+
+// The tree is edited as a flat list where nesting is each row's depth
+interface OutlineRow {
+  id: number;
+  title: string;
+  pageNumber: number | null;
+  depth: number;
+}
+
+let nextRowId = 0;
+
+const toRows = (entries: OutlineEntry[], depth = 0): OutlineRow[] =>
+  entries.flatMap((entry) => [
+    { id: nextRowId++, title: entry.title, pageNumber: entry.pageNumber, depth },
+    ...toRows(entry.children, depth + 1),
+  ]);
+
+function toEntries(rows: OutlineRow[]): OutlineEntry[] {
+  const root: OutlineEntry[] = [];
+  const parents: OutlineEntry[][] = [root];
+  for (const row of rows) {
+    const entry: OutlineEntry = { title: row.title, pageNumber: row.pageNumber, children: [] };
+    parents[row.depth].push(entry);
+    parents[row.depth + 1] = entry.children;
+  }
+  return root;
+}
+
+// A row can be nested at most one level deeper than the row above it
+const normalizeDepths = (rows: OutlineRow[]) =>
+  rows.reduce<OutlineRow[]>((result, row, i) => {
+    const maxDepth = i === 0 ? 0 : result[i - 1].depth + 1;
+    return [...result, { ...row, depth: Math.max(0, Math.min(row.depth, maxDepth)) }];
+  }, []);
+
+// The row and every row nested under it
+const subtreeEnd = (rows: OutlineRow[], index: number) => {
+  let end = index + 1;
+  while (end < rows.length && rows[end].depth > rows[index].depth) end++;
+  return end;
+};
+
+export function OutlineEditor({ file, onOutlineChange, disabled = false }: OutlineEditorProps) {
+  const [rows, setRows] = useState<OutlineRow[]>([]);
+  const [pageCount, setPageCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOutline = async () => {
+      setIsLoading(true);
+      setError(null);
+      setRows([]);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await fetch('/api/pdf/outline', {
+          method: 'POST',
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to read bookmarks');
+        }
+
+        const data: { pageCount: number; outline: OutlineEntry[] } = await response.json();
+        if (!cancelled) {
+          setRows(toRows(data.outline));
+          setPageCount(data.pageCount);
+        }
+      } catch (error) {
+        console.error('Error reading bookmarks:', error);
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to read bookmarks');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadOutline();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    onOutlineChange(toEntries(rows));
+  }, [rows, onOutlineChange]);
+
+  const updateRow = (id: number, changes: Partial<OutlineRow>) => {
+    setRows(normalizeDepths(rows.map((row) => (row.id === id ? { ...row, ...changes } : row))));
+  };
+
+  const handleAdd = () => {
+    setRows([...rows, { id: nextRowId++, title: 'New bookmark', pageNumber: 1, depth: 0 }]);
+  };
+
+  const handleDelete = (index: number) => {
+    setRows(normalizeDepths([...rows.slice(0, index), ...rows.slice(subtreeEnd(rows, index))]));
+  };
+
+  // Moves a bookmark with its children past the neighbouring bookmark at the same level
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const end = subtreeEnd(rows, index);
+    const block = rows.slice(index, end);
+    const rest = [...rows.slice(0, index), ...rows.slice(end)];
+
+    let target: number;
+    if (direction === -1) {
+      target = index - 1;
+      while (target > 0 && rest[target].depth > block[0].depth) target--;
+    } else {
+      if (end >= rows.length) return;
+      target = subtreeEnd(rest, index);
+    }
+    if (target < 0) return;
+
+    setRows(normalizeDepths([...rest.slice(0, target), ...block, ...rest.slice(target)]));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Reading bookmarks...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <Label>Bookmarks ({rows.length})</Label>
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={disabled}>
+          <BookmarkPlus className="mr-2 h-4 w-4" />
+          Add Bookmark
+        </Button>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This PDF has no bookmarks yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row, i) => (
+            <div key={row.id} className="flex items-center gap-2" style={{ paddingLeft: `${row.depth * 1.5}rem` }}>
+              <Input
+                value={row.title}
+                onChange={(e) => updateRow(row.id, { title: e.target.value })}
+                placeholder="Bookmark title"
+                disabled={disabled}
+              />
+              <Input
+                type="number"
+                min={1}
+                max={pageCount}
+                value={row.pageNumber ?? ''}
+                onChange={(e) => updateRow(row.id, { pageNumber: e.target.value ? parseInt(e.target.value) : null })}
+                placeholder="Page"
+                className="w-24 shrink-0"
+                disabled={disabled}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Nest under the bookmark above"
+                onClick={() => updateRow(row.id, { depth: row.depth + 1 })}
+                disabled={disabled || i === 0 || row.depth > rows[i - 1].depth}
+              >
+                <IndentIncrease className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move out one level"
+                onClick={() => updateRow(row.id, { depth: row.depth - 1 })}
+                disabled={disabled || row.depth === 0}
+              >
+                <IndentDecrease className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move up"
+                onClick={() => handleMove(i, -1)}
+                disabled={disabled || i === 0}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move down"
+                onClick={() => handleMove(i, 1)}
+                disabled={disabled || subtreeEnd(rows, i) >= rows.length}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete with nested bookmarks"
+                onClick={() => handleDelete(i)}
+                disabled={disabled}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
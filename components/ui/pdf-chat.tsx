@@ -1,73 +1,176 @@
 'use client';
 
-import { useState, useRef } from 'react';
-import { loadAndProcessPDF } from '@/lib/rag/pdf-processor';
-import { initializeVectorStore, addDocumentsToStore, clearVectorStore } from '@/lib/rag/vector-store';
+import { useEffect, useState, useRef, ReactNode } from 'react';
 import { Alert, AlertDescription } from './alert';
 import { PDFUpload, PDFFile } from './pdf-upload';
 import { Button } from './button';
 import { Textarea } from './textarea';
 import { Card } from './card';
-import { AlertCircle, Loader2 } from 'lucide-react';
+import { Checkbox } from './checkbox';
+import { AlertCircle, Download, FileText, Loader2, Square, X } from 'lucide-react';
+import type { ChatReportMessage } from '@/lib/chat-report';
+import { readSseEvents } from '@/lib/sse';
+import { formatPageRange } from '@/lib/rag/types';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  context?: string[];
+type Message = ChatReportMessage;
+
+// An uploaded PDF whose chunks are in the vector store
+interface ChatDocument {
+  id: string;
+  file: PDFFile;
+  // Object URL used to open cited pages
+  url: string;
+  // Whether questions are answered from this document
+  inScope: boolean;
 }
 
+// Citations the assistant is asked to use: [p. 12], [pp. 12-13], or with
+// several documents in scope [contract.pdf, p. 12]
+const CITATION_PATTERN = /\[(?:([^[\]]+?),\s*)?pp?\.\s*(\d+)(?:\s*[-–]\s*\d+)?\]/g;
+
 export default function PDFChat() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedFile, setSelectedFile] = useState<PDFFile | null>(null);
-  const [isPDFMode, setIsPDFMode] = useState(false);
+  const [documents, setDocuments] = useState<ChatDocument[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const formRef = useRef<HTMLFormElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The server keeps this chat's documents and history under its session ID
+  const sessionIdRef = useRef<string | null>(null);
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+
+  const scopedDocuments = documents.filter((doc) => doc.inScope);
+  const isPDFMode = scopedDocuments.length > 0;
+
+  const startSession = async () => {
+    const response = await fetch('/api/chat/sessions', { method: 'POST' });
+    if (!response.ok) {
+      throw new Error('Failed to start chat session');
+    }
+    const { id } = await response.json();
+    sessionIdRef.current = id;
+    return id as string;
+  };
 
+  const ensureSession = () => (sessionIdRef.current ? Promise.resolve(sessionIdRef.current) : startSession());
+
+  // Sessions expire after a while without requests, and the server forgets
+  // their documents, so the library starts over in a new session
+  const checkSession = async (response: Response) => {
+    if (response.status === 410) {
+      documentsRef.current.forEach((doc) => URL.revokeObjectURL(doc.url));
+      setDocuments([]);
+      sessionIdRef.current = null;
+      await startSession();
+    }
+  };
+
+  // Start a session when the chat opens; end it and release the object URLs when it goes away
+  useEffect(() => {
+    ensureSession().catch((err) => setError(err.message));
+    return () => {
+      documentsRef.current.forEach((doc) => URL.revokeObjectURL(doc.url));
+      if (sessionIdRef.current) {
+        fetch('/api/chat/sessions', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sessionId: sessionIdRef.current }),
+          keepalive: true
+        }).catch(() => {});
+        sessionIdRef.current = null;
+      }
+    };
+  }, []);
+
+  // Citations open the uploaded PDF in the browser's viewer
+  const openPage = (documentId: string | undefined, pageNumber: number) => {
+    const doc = documents.find((doc) => doc.id === documentId);
+    if (doc) {
+      window.open(`${doc.url}#page=${pageNumber}`, '_blank', 'noopener');
+    }
+  };
+
+  // A citation without a file name refers to the answer's only (or first) source
+  const findCitedDocument = (message: Message, name: string | undefined) => {
+    const chunks = message.context || [];
+    const cited = name
+      ? chunks.find((chunk) => chunk.metadata.source === name.trim()) ||
+        documents.find((doc) => doc.file.name === name.trim())
+      : chunks[0];
+    return cited && ('metadata' in cited ? cited.metadata.documentId : cited.id);
+  };
+
+  const renderWithCitations = (message: Message) => {
+    const text = message.content;
+    const parts: ReactNode[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+      const documentId = findCitedDocument(message, match[1]);
+      const pageNumber = parseInt(match[2]);
+      if (!documentId) continue;
+      parts.push(text.slice(lastIndex, match.index));
+      parts.push(
+        <button
+          key={match.index}
+          type="button"
+          className="text-blue-600 hover:underline"
+          onClick={() => openPage(documentId, pageNumber)}
+        >
+          {match[0]}
+        </button>
+      );
+      lastIndex = match.index! + match[0].length;
+    }
+    parts.push(text.slice(lastIndex));
+    return parts;
+  };
+
+  // Each file is added to the library alongside the ones already uploaded
   const handleFileUpload = async (files: PDFFile[]) => {
-    const file = files[0];
-    if (!file) return;
+    setIsLoading(true);
+    setError(null);
+    for (const file of files) {
+      await addDocument(file);
+    }
+    setIsLoading(false);
+  };
 
+  const addDocument = async (file: PDFFile) => {
     try {
-      setIsLoading(true);
-      setError(null);
-      
-      // Clear any existing messages and state
-      setMessages([]);
-      setSelectedFile(null);
-      setIsPDFMode(false);
-      
       console.log('=== PDF PROCESSING START ===');
       console.log(`Processing PDF: ${file.name} (${Math.round(file.size / 1024)}KB)`);
-      
-      // Step 1: Process PDF into chunks
-      console.log('Processing PDF into chunks...');
-      const chunks = await loadAndProcessPDF(file);
-      console.log(`Generated ${chunks.length} chunks`);
-      
-      if (chunks.length > 0) {
-        console.log('Sample of first chunk:', chunks[0].slice(0, 100));
-      }
-      
-      // Step 2: Send chunks to API for storage
-      console.log('Sending chunks to API...');
+
+      // The server extracts and embeds the text, or reuses the embeddings of a PDF it has indexed before
+      console.log('Uploading PDF...');
+      const formData = new FormData();
+      formData.append('sessionId', await ensureSession());
+      formData.append('file', file);
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ chunks })
+        body: formData
       });
 
       if (!response.ok) {
+        await checkSession(response);
         const error = await response.json();
-        throw new Error(error.error || 'Failed to store chunks');
+        throw new Error(error.error || 'Failed to process PDF');
       }
-      
-      // Step 3: Update UI state
-      setSelectedFile(file);
-      setIsPDFMode(true);
-      setMessages([{
+
+      const { documentId } = await response.json();
+      if (documentsRef.current.some((doc) => doc.id === documentId)) {
+        console.log('PDF is already in the library');
+        return;
+      }
+
+      // Update UI state
+      setDocuments(prev => [...prev, { id: documentId, file, url: URL.createObjectURL(file), inScope: true }]);
+      setMessages(prev => [...prev, {
         role: 'assistant',
-        content: `I've successfully processed your PDF "${file.name}" and I'm ready to answer questions about it. What would you like to know?`
+        content: `I've successfully processed your PDF "${file.name}" and I'm ready to answer questions about it. What would you like to know?`,
+        timestamp: new Date().toISOString()
       }]);
       
       console.log('=== PDF PROCESSING COMPLETE ===');
@@ -80,12 +183,35 @@ export default function PDFChat() {
         fileSize: file.size
       });
       
-      setError(`Failed to process PDF: ${error.message}`);
-      setSelectedFile(null);
-      setIsPDFMode(false);
-      setMessages([]);
-    } finally {
-      setIsLoading(false);
+      setError(`Failed to process ${file.name}: ${error.message}`);
+    }
+  };
+
+  const toggleScope = (documentId: string, inScope: boolean) => {
+    setDocuments(prev => prev.map((doc) => (doc.id === documentId ? { ...doc, inScope } : doc)));
+  };
+
+  // Removes one document from this chat; the conversation and other documents stay
+  const handleRemoveDocument = async (doc: ChatDocument) => {
+    setError(null);
+    try {
+      const response = await fetch('/api/chat/documents', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: sessionIdRef.current, documentId: doc.id })
+      });
+
+      if (!response.ok) {
+        await checkSession(response);
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to remove document');
+      }
+
+      setDocuments(prev => prev.filter((other) => other.id !== doc.id));
+      URL.revokeObjectURL(doc.url);
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove document');
+      console.error('Remove document error:', err);
     }
   };
 
@@ -96,7 +222,7 @@ export default function PDFChat() {
     if (!message.trim()) return;
 
     // Add user message
-    const userMessage: Message = { role: 'user', content: message };
+    const userMessage: Message = { role: 'user', content: message, timestamp: new Date().toISOString() };
     setMessages(prev => [...prev, userMessage]);
     
     // Clear input
@@ -106,44 +232,140 @@ export default function PDFChat() {
 
     setIsLoading(true);
     setError(null);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     try {
+      // The server answers with the session's own history
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          sessionId: await ensureSession(),
           message,
-          history: messages.map(({ role, content }) => ({ role, content })),
-          isPDFMode
-        })
+          documentIds: scopedDocuments.map((doc) => doc.id)
+        }),
+        signal: abortController.signal
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        await checkSession(response);
         const error = await response.json();
         throw new Error(error.error || 'Failed to get response');
       }
 
-      const { response: assistantMessage, context } = await response.json();
+      // The answer is added straight away and grows as tokens arrive
+      setIsStreaming(true);
       setMessages(prev => [...prev, { 
         role: 'assistant', 
-        content: assistantMessage,
-        context 
+        content: '',
+        timestamp: new Date().toISOString(),
+        source: isPDFMode ? scopedDocuments.map((doc) => doc.file.name).join(', ') : undefined,
+        context: []
       }]);
+      const updateAnswer = (changes: Partial<Message>) => {
+        setMessages(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], ...changes }]);
+      };
+
+      let content = '';
+      for await (const { event, data } of readSseEvents(response.body)) {
+        if (event === 'context') {
+          updateAnswer({ context: JSON.parse(data) });
+        } else if (event === 'token') {
+          content += JSON.parse(data);
+          updateAnswer({ content });
+        } else if (event === 'error') {
+          throw new Error(JSON.parse(data).error);
+        }
+      }
     } catch (err: any) {
-      setError(err.message || 'Failed to get response');
-      console.error('Chat error:', err);
+      // Stopping keeps whatever part of the answer has arrived
+      if (err.name !== 'AbortError') {
+        setError(err.message || 'Failed to get response');
+        console.error('Chat error:', err);
+      }
     } finally {
+      abortControllerRef.current = null;
+      setIsStreaming(false);
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Export the conversation with the excerpts behind each answer
+  const handleExport = async (format: 'pdf' | 'markdown') => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/chat/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: sessionIdRef.current,
+          format,
+          title: documents.length > 0
+            ? `Chat Report: ${documents.map((doc) => doc.file.name).join(', ')}`
+            : 'Chat Report'
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to export chat');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = format === 'pdf' ? 'chat-report.pdf' : 'chat-report.md';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export chat');
+      console.error('Export error:', err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canExport = !isStreaming && messages.some((message) => message.role === 'user');
+
   return (
     <div className="flex flex-col h-full max-w-3xl mx-auto p-4 space-y-4">
       <div className="w-full">
-        <PDFUpload onUpload={handleFileUpload} />
-        {selectedFile && (
-          <div className="mt-2 text-sm text-gray-600">
-            Active PDF: {selectedFile.name}
+        <PDFUpload onUpload={handleFileUpload} multiple />
+        {documents.length > 0 && (
+          <div className="mt-2 space-y-1 text-sm text-gray-600">
+            <div className="font-semibold">Documents (checked ones are used to answer):</div>
+            {documents.map((doc) => (
+              <div key={doc.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`scope-${doc.id}`}
+                  checked={doc.inScope}
+                  onCheckedChange={(checked) => toggleScope(doc.id, checked === true)}
+                  disabled={isStreaming}
+                />
+                <FileText className="h-4 w-4 shrink-0" />
+                <label htmlFor={`scope-${doc.id}`} className="flex-1 truncate">
+                  {doc.file.name}
+                </label>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleRemoveDocument(doc)}
+                  disabled={isLoading}
+                  aria-label={`Remove ${doc.file.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
           </div>
         )}
       </div>
@@ -161,13 +383,24 @@ export default function PDFChat() {
             <div className="font-semibold mb-2">
               {message.role === 'user' ? 'You' : 'Assistant'}:
             </div>
-            <div className="whitespace-pre-wrap">{message.content}</div>
+            <div className="whitespace-pre-wrap">
+              {(message.role === 'assistant' ? renderWithCitations(message) : message.content) || (isStreaming && index === messages.length - 1 && (
+                <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+              ))}
+            </div>
             {message.context && message.context.length > 0 && (
               <div className="mt-2 text-sm text-gray-600">
                 <div className="font-semibold">Relevant PDF Context:</div>
                 {message.context.map((chunk, i) => (
                   <div key={i} className="mt-1 p-2 bg-gray-100 rounded">
-                    {chunk}
+                    <button
+                      type="button"
+                      className="mb-1 block font-medium text-blue-600 hover:underline"
+                      onClick={() => openPage(chunk.metadata.documentId, chunk.metadata.pageStart)}
+                    >
+                      [{i + 1}] {chunk.metadata.source}, {formatPageRange(chunk.metadata)}
+                    </button>
+                    {chunk.text}
                   </div>
                 ))}
               </div>
@@ -176,22 +409,44 @@ export default function PDFChat() {
         ))}
       </div>
 
+      {canExport && (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleExport('pdf')} disabled={isExporting}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export PDF
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('markdown')} disabled={isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            Export Markdown
+          </Button>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} ref={formRef} className="space-y-2">
         <Textarea
           name="message"
-          placeholder={isPDFMode ? "Ask a question about the PDF..." : "Send a message..."}
+          placeholder={isPDFMode
+            ? `Ask a question about ${scopedDocuments.length === 1 ? 'the PDF' : `${scopedDocuments.length} PDFs`}...`
+            : "Send a message..."}
           className="min-h-[80px]"
         />
-        <Button type="submit" className="w-full" disabled={isLoading}>
-          {isLoading ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Processing...
-            </>
-          ) : (
-            'Send'
-          )}
-        </Button>
+        {isStreaming ? (
+          <Button type="button" variant="outline" className="w-full" onClick={handleStop}>
+            <Square className="mr-2 h-4 w-4" />
+            Stop
+          </Button>
+        ) : (
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Processing...
+              </>
+            ) : (
+              'Send'
+            )}
+          </Button>
+        )}
       </form>
     </div>
   );
@@ -0,0 +1,412 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from './button';
+import { Checkbox } from './checkbox';
+import { Input } from './input';
+import { Label } from './label';
+import { Textarea } from './textarea';
+import { ScrollArea } from './scroll-area';
+import { RadioGroup, RadioGroupItem } from './radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import { Alert, AlertDescription } from './alert';
+import { usePDFThumbnails } from '@/hooks/use-pdf-thumbnails';
+import { formatCsvCell } from '@/lib/csv';
+import type { FormFieldInfo, FormFieldValue, FormValues } from '@/lib/pdf-forms';
+import { AlertCircle, ChevronLeft, ChevronRight, FileSpreadsheet, Loader2 } from 'lucide-react';
+
+export interface FormFillValue {
+  // Only the fields the user changed, so untouched fields keep their original appearance
+  values: FormValues;
+  flatten: boolean;
+  // A CSV with one row per PDF switches to batch mode
+  csv: File | null;
+}
+
+interface PDFFormFillerProps {
+  file: File;
+  value: FormFillValue;
+  onChange: (value: FormFillValue) => void;
+  disabled?: boolean;
+}
+
+export const DEFAULT_FORM_FILL: FormFillValue = {
+  values: {},
+  flatten: false,
+  csv: null,
+};
+
+const PREVIEW_WIDTH = 600;
+
+// Buttons and signatures cannot be filled with a value
+const isFillable = (field: FormFieldInfo) => field.type !== 'button' && field.type !== 'signature';
+
+const widgetStyle = (widget: FormFieldInfo['widgets'][number]) => ({
+  left: `${widget.x * 100}%`,
+  top: `${widget.y * 100}%`,
+  width: `${widget.width * 100}%`,
+  height: `${widget.height * 100}%`,
+});
+
+// How a field's value is written in a CSV cell, matching what the batch fill reads back
+const toCsvCell = (fieldValue: FormFieldValue) =>
+  formatCsvCell(Array.isArray(fieldValue) ? fieldValue.join(';') : String(fieldValue));
+
+export function PDFFormFiller({ file, value, onChange, disabled = false }: PDFFormFillerProps) {
+  const { thumbnails, isLoading: isRendering } = usePDFThumbnails(file, PREVIEW_WIDTH);
+  const [fields, setFields] = useState<FormFieldInfo[]>([]);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadFields = async () => {
+      setIsLoading(true);
+      setError(null);
+      setFields([]);
+      setActiveField(null);
+      setCurrentPage(1);
+      onChange(DEFAULT_FORM_FILL);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await fetch('/api/pdf/form-fields', {
+          method: 'POST',
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to read form fields');
+        }
+
+        const data: { fields: FormFieldInfo[] } = await response.json();
+        if (!cancelled) {
+          setFields(data.fields);
+        }
+      } catch (error) {
+        console.error('Error reading form fields:', error);
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to read form fields');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadFields();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, onChange]);
+
+  const getValue = (field: FormFieldInfo) => value.values[field.name] ?? field.value;
+
+  const setValue = (field: FormFieldInfo, fieldValue: FormFieldValue) => {
+    onChange({ ...value, values: { ...value.values, [field.name]: fieldValue } });
+  };
+
+  const focusField = (field: FormFieldInfo) => {
+    setActiveField(field.name);
+    if (field.widgets[0]) {
+      setCurrentPage(field.widgets[0].page);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const columns = fields.filter((field) => isFillable(field) && !field.readOnly);
+    const csv = [
+      columns.map((field) => formatCsvCell(field.name)).join(','),
+      columns.map((field) => toCsvCell(getValue(field))).join(','),
+    ].join('\r\n');
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${file.name.replace(/\.pdf$/i, '')}-fields.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const renderInput = (field: FormFieldInfo) => {
+    const fieldValue = getValue(field);
+    const isDisabled = disabled || field.readOnly || value.csv !== null;
+    const id = `form-field-${fields.indexOf(field)}`;
+
+    if (field.type === 'checkbox') {
+      return (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={id}
+            checked={fieldValue === true}
+            onCheckedChange={(checked) => setValue(field, checked === true)}
+            onFocus={() => focusField(field)}
+            disabled={isDisabled}
+          />
+          <Label htmlFor={id} className="font-normal">
+            {field.name}
+          </Label>
+        </div>
+      );
+    }
+
+    if (field.type === 'radio') {
+      return (
+        <RadioGroup
+          value={String(fieldValue)}
+          onValueChange={(option) => setValue(field, option)}
+          onFocus={() => focusField(field)}
+          disabled={isDisabled}
+        >
+          {field.options.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`${id}-${option}`} />
+              <Label htmlFor={`${id}-${option}`} className="font-normal">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    }
+
+    if (field.multiSelect) {
+      const selected = Array.isArray(fieldValue) ? fieldValue : [];
+      return (
+        <div className="space-y-1">
+          {field.options.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <Checkbox
+                id={`${id}-${option}`}
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) =>
+                  setValue(
+                    field,
+                    checked === true ? [...selected, option] : selected.filter((other) => other !== option)
+                  )
+                }
+                onFocus={() => focusField(field)}
+                disabled={isDisabled}
+              />
+              <Label htmlFor={`${id}-${option}`} className="font-normal">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    if (field.type === 'dropdown' || field.type === 'list') {
+      const selected = Array.isArray(fieldValue) ? fieldValue[0] || '' : String(fieldValue);
+
+      // Editable dropdowns accept any text, with the options offered as suggestions
+      if (field.editable) {
+        return (
+          <>
+            <Input
+              id={id}
+              list={`${id}-options`}
+              value={selected}
+              onChange={(e) => setValue(field, e.target.value ? [e.target.value] : [])}
+              onFocus={() => focusField(field)}
+              disabled={isDisabled}
+            />
+            <datalist id={`${id}-options`}>
+              {field.options.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </>
+        );
+      }
+
+      return (
+        <Select
+          value={selected}
+          onValueChange={(option) => setValue(field, [option])}
+          onOpenChange={(open) => open && focusField(field)}
+          disabled={isDisabled}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Choose an option" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    const TextInput = field.multiline ? Textarea : Input;
+    return (
+      <TextInput
+        id={id}
+        value={String(fieldValue)}
+        maxLength={field.maxLength ?? undefined}
+        onChange={(e) => setValue(field, e.target.value)}
+        onFocus={() => focusField(field)}
+        disabled={isDisabled}
+      />
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Reading form fields...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const fillableFields = fields.filter(isFillable);
+  if (fillableFields.length === 0) {
+    return <p className="text-sm text-muted-foreground">This PDF has no fillable form fields.</p>;
+  }
+
+  const thumbnail = thumbnails.find((page) => page.pageNumber === currentPage);
+  const pageWidgets = fillableFields.flatMap((field) =>
+    field.widgets
+      .filter((widget) => widget.page === currentPage)
+      .map((widget) => ({ field, widget }))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-[1fr_320px]">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">Click a field on the page to edit it.</p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setCurrentPage(currentPage - 1)}
+                disabled={currentPage <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm">
+                Page {currentPage} of {thumbnails.length || '…'}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setCurrentPage(currentPage + 1)}
+                disabled={currentPage >= thumbnails.length}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {thumbnail ? (
+            <div className="relative mx-auto max-w-[600px] border">
+              <img src={thumbnail.url} alt={`Page ${currentPage}`} className="w-full" />
+              {pageWidgets.map(({ field, widget }, i) => (
+                <button
+                  key={`${field.name}-${i}`}
+                  type="button"
+                  title={field.name}
+                  className={
+                    field.name === activeField
+                      ? 'absolute border-2 border-primary bg-primary/20'
+                      : 'absolute border border-blue-500/60 bg-blue-500/10 hover:bg-blue-500/20'
+                  }
+                  style={widgetStyle(widget)}
+                  onClick={() => {
+                    setActiveField(field.name);
+                    document.getElementById(`form-field-${fields.indexOf(field)}`)?.scrollIntoView({ block: 'center' });
+                  }}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="flex h-64 items-center justify-center gap-2 text-sm text-muted-foreground">
+              {isRendering && <Loader2 className="h-4 w-4 animate-spin" />}
+              Rendering page preview...
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Fields ({fillableFields.length})</Label>
+          <ScrollArea className="h-[500px] rounded-md border p-3">
+            <div className="space-y-4">
+              {fillableFields.map((field) => (
+                <div
+                  key={field.name}
+                  className={field.name === activeField ? 'space-y-2 rounded-md bg-muted p-2' : 'space-y-2 p-2'}
+                >
+                  {field.type !== 'checkbox' && (
+                    <Label htmlFor={`form-field-${fields.indexOf(field)}`}>
+                      {field.name}
+                      {field.required && <span className="text-destructive"> *</span>}
+                    </Label>
+                  )}
+                  {renderInput(field)}
+                  {field.readOnly && <p className="text-xs text-muted-foreground">Read-only</p>}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="form-flatten"
+          checked={value.flatten}
+          onCheckedChange={(checked) => onChange({ ...value, flatten: checked === true })}
+          disabled={disabled}
+        />
+        <Label htmlFor="form-flatten" className="font-normal">
+          Flatten form (values become part of the page and can no longer be edited)
+        </Label>
+      </div>
+
+      <div className="space-y-2 rounded-lg border p-4">
+        <Label>Batch fill from CSV</Label>
+        <p className="text-sm text-muted-foreground">
+          Each row produces one filled PDF, downloaded together as a ZIP. Column headers are field names; add a
+          &quot;filename&quot; column to name the files. Separate multiple list selections with &quot;;&quot;.
+        </p>
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => onChange({ ...value, csv: e.target.files?.[0] || null })}
+            disabled={disabled}
+          />
+          <Button variant="outline" onClick={handleDownloadTemplate} disabled={disabled}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            CSV Template
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
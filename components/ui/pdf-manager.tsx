@@ -1,31 +1,68 @@
 'use client';
 
-import { useState } from 'react';
+import { ReactNode, useState } from 'react';
 import { PDFUpload, PDFFile } from './pdf-upload';
 import { Button } from './button';
-import { Trash2, FileText } from 'lucide-react';
+import { PDFProperties } from './pdf-properties';
+import { Trash2, FileText, FileImage, Info, GripVertical } from 'lucide-react';
 import { Card, CardContent } from './card';
 import { ScrollArea } from './scroll-area';
+import { cn } from '@/lib/utils';
 
 interface PDFManagerProps {
   onFilesSelected?: (files: PDFFile[]) => void;
   multiple?: boolean;
+  unlockEncrypted?: boolean;
+  acceptImages?: boolean;
+  // Lets the files be put in order by dragging; only useful with `multiple`
+  reorderable?: boolean;
+  // Extra controls shown under each file, e.g. per-file merge options
+  renderFileOptions?: (file: PDFFile) => ReactNode;
 }
 
-export function PDFManager({ onFilesSelected, multiple = false }: PDFManagerProps) {
+export function PDFManager({
+  onFilesSelected,
+  multiple = false,
+  unlockEncrypted = true,
+  acceptImages = false,
+  reorderable = false,
+  renderFileOptions,
+}: PDFManagerProps) {
   const [files, setFiles] = useState<PDFFile[]>([]);
+  const [inspectedFile, setInspectedFile] = useState<PDFFile | null>(null);
+  const [draggedFile, setDraggedFile] = useState<PDFFile | null>(null);
+  const [dropTarget, setDropTarget] = useState<PDFFile | null>(null);
+
+  // With multiple files the whole list is reported, so removals and reordering reach the parent too
+  const updateFiles = (updated: PDFFile[]) => {
+    setFiles(updated);
+    if (multiple) {
+      onFilesSelected?.(updated);
+    }
+  };
 
   const handleUpload = (newFiles: PDFFile[]) => {
     if (multiple) {
-      setFiles(prev => [...prev, ...newFiles]);
+      updateFiles([...files, ...newFiles]);
     } else {
       setFiles(newFiles);
+      onFilesSelected?.(newFiles);
     }
-    onFilesSelected?.(newFiles);
+  };
+
+  const handleDrop = (target: PDFFile) => {
+    if (!draggedFile || draggedFile === target) return;
+
+    const reordered = files.filter(file => file !== draggedFile);
+    reordered.splice(files.indexOf(target), 0, draggedFile);
+    updateFiles(reordered);
   };
 
   const handleRemove = (fileToRemove: PDFFile) => {
-    setFiles(prev => prev.filter(file => file !== fileToRemove));
+    updateFiles(files.filter(file => file !== fileToRemove));
+    if (inspectedFile === fileToRemove) {
+      setInspectedFile(null);
+    }
     if (fileToRemove.preview) {
       URL.revokeObjectURL(fileToRemove.preview);
     }
@@ -37,19 +74,24 @@ export function PDFManager({ onFilesSelected, multiple = false }: PDFManagerProp
         URL.revokeObjectURL(file.preview);
       }
     });
-    setFiles([]);
+    updateFiles([]);
   };
 
   return (
     <div className="space-y-4">
-      <PDFUpload onUpload={handleUpload} multiple={multiple} />
+      <PDFUpload
+        onUpload={handleUpload}
+        multiple={multiple}
+        unlockEncrypted={unlockEncrypted}
+        acceptImages={acceptImages}
+      />
 
       {files.length > 0 && (
         <Card>
           <CardContent className="p-4">
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-lg font-semibold">
-                Selected PDF{files.length > 1 ? 's' : ''}
+                Selected {acceptImages ? 'File' : 'PDF'}{files.length > 1 ? 's' : ''}
               </h3>
               {files.length > 1 && (
                 <Button
@@ -62,29 +104,74 @@ export function PDFManager({ onFilesSelected, multiple = false }: PDFManagerProp
               )}
             </div>
 
-            <ScrollArea className="h-[300px] pr-4">
+            <ScrollArea className={inspectedFile ? "h-[600px] pr-4" : "h-[300px] pr-4"}>
               <div className="space-y-2">
                 {files.map((file, index) => (
                   <div
                     key={`${file.name}-${index}`}
-                    className="flex items-center justify-between p-3 bg-muted rounded-lg"
+                    className="space-y-2"
+                    draggable={reorderable}
+                    onDragStart={() => setDraggedFile(file)}
+                    onDragEnd={() => {
+                      setDraggedFile(null);
+                      setDropTarget(null);
+                    }}
+                    onDragOver={(e) => {
+                      if (!reorderable) return;
+                      e.preventDefault();
+                      setDropTarget(file);
+                    }}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(file);
+                      setDropTarget(null);
+                    }}
                   >
-                    <div className="flex items-center space-x-3">
-                      <FileText className="h-5 w-5 text-muted-foreground" />
-                      <div>
-                        <p className="font-medium">{file.name}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {(file.size / 1024 / 1024).toFixed(2)} MB
-                        </p>
+                    <div
+                      className={cn(
+                        "flex items-center justify-between p-3 bg-muted rounded-lg",
+                        reorderable && "cursor-move",
+                        draggedFile === file && "opacity-50",
+                        dropTarget === file && draggedFile !== file && "ring-2 ring-primary"
+                      )}
+                    >
+                      <div className="flex items-center space-x-3">
+                        {reorderable && <GripVertical className="h-4 w-4 text-muted-foreground" />}
+                        {file.type.startsWith('image/') ? (
+                          <FileImage className="h-5 w-5 text-muted-foreground" />
+                        ) : (
+                          <FileText className="h-5 w-5 text-muted-foreground" />
+                        )}
+                        <div>
+                          <p className="font-medium">{file.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {(file.size / 1024 / 1024).toFixed(2)} MB
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center">
+                        {!file.type.startsWith('image/') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Properties"
+                            onClick={() => setInspectedFile(inspectedFile === file ? null : file)}
+                          >
+                            <Info className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemove(file)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleRemove(file)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+                    {renderFileOptions?.(file)}
+                    {inspectedFile === file && <PDFProperties file={file} />}
                   </div>
                 ))}
               </div>
@@ -1,19 +1,49 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { PDFFile } from './pdf-upload';
 import { Button } from './button';
 import { Card, CardContent, CardHeader, CardTitle } from './card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './tabs';
 import { Input } from './input';
 import { Label } from './label';
+import { Switch } from './switch';
 import { PDFManager } from './pdf-manager';
+import { CompressionReport, CompressionReportCard } from './compression-report';
+import { PDFPageOrganizer, OrganizerPage, createOrganizerPage } from './pdf-page-organizer';
+import { WatermarkOptions, WatermarkOptionsValue, DEFAULT_WATERMARK_OPTIONS } from './watermark-options';
+import { HeaderFooterOptions, HeaderFooterOptionsValue, DEFAULT_HEADER_FOOTER_OPTIONS } from './header-footer-options';
+import { SecurityOptions, SecurityOptionsValue, DEFAULT_SECURITY_OPTIONS } from './security-options';
+import { SanitizeOptions, SanitizeOptionsValue, DEFAULT_SANITIZE_OPTIONS } from './sanitize-options';
+import { SanitizeReport, SanitizeReportCard } from './sanitize-report';
+import { RedactionEditor } from './redaction-editor';
+import type { RedactionArea } from '@/lib/redaction';
+import { PDFFormFiller, FormFillValue, DEFAULT_FORM_FILL } from './pdf-form-filler';
+import { OutlineEditor } from './outline-editor';
+import { ImagePageOptionsForm, DEFAULT_IMAGE_OPTIONS } from './image-page-options';
+import { CreatePdfOptionsForm, CreatePdfOptionsValue, DEFAULT_CREATE_PDF_OPTIONS } from './create-pdf-options';
+import type { ImagePageOptions } from '@/lib/image-pages';
+import type { OutlineEntry } from '@/lib/outline-utils';
+import { usePDFThumbnails } from '@/hooks/use-pdf-thumbnails';
 import { 
   FileText, 
   MergeIcon, 
   Scissors, 
   FileOutput, 
   Minimize2,
+  RotateCw,
+  RotateCcw,
+  LayoutGrid,
+  Stamp,
+  Hash,
+  Lock,
+  Unlock,
+  ShieldCheck,
+  Eraser,
+  ScanText,
+  FormInput,
+  Bookmark,
+  FilePlus,
   Download,
   Loader2,
   AlertCircle
@@ -30,20 +60,122 @@ interface ConversionFormat {
   label: string;
 }
 
+interface ImageFormat {
+  value: 'png' | 'jpeg' | 'webp';
+  label: string;
+  extension: string;
+}
+
+const IMAGE_FORMATS: ImageFormat[] = [
+  { value: 'png', label: 'PNG', extension: 'png' },
+  { value: 'jpeg', label: 'JPEG', extension: 'jpg' },
+  { value: 'webp', label: 'WebP', extension: 'webp' },
+];
+
+interface SplitMode {
+  value: 'ranges' | 'pages' | 'every' | 'bookmarks';
+  label: string;
+}
+
+const SPLIT_MODES: SplitMode[] = [
+  { value: 'ranges', label: 'Page Ranges' },
+  { value: 'pages', label: 'Every Page' },
+  { value: 'every', label: 'Every N Pages' },
+  { value: 'bookmarks', label: 'Bookmarks' },
+];
+
+interface CompressionStrategy {
+  value: 'preserve' | 'rasterize';
+  label: string;
+  description: string;
+}
+
+const COMPRESSION_STRATEGIES: CompressionStrategy[] = [
+  {
+    value: 'preserve',
+    label: 'Keep Text & Links',
+    description: 'Recompresses images and removes duplicate or unused objects. Text stays selectable.',
+  },
+  {
+    value: 'rasterize',
+    label: 'Rasterize Pages',
+    description: 'Converts every page to an image. Smallest output, but text, links and forms are lost.',
+  },
+];
+
+interface MergePageSize {
+  value: 'original' | 'a4' | 'letter';
+  label: string;
+}
+
+const MERGE_PAGE_SIZES: MergePageSize[] = [
+  { value: 'original', label: 'Keep Original' },
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+];
+
+interface MergeFileOptions {
+  pages: string;
+  blankAfter: boolean;
+}
+
+const DEFAULT_MERGE_FILE_OPTIONS: MergeFileOptions = { pages: '', blankAfter: false };
+
 const CONVERSION_FORMATS: ConversionFormat[] = [
   { value: 'docx', label: 'Word Document (.docx)' },
-  { value: 'image', label: 'Image (.png)' },
+  { value: 'image', label: 'Images (.png/.jpg/.webp)' },
   { value: 'text', label: 'Text (.txt)' },
 ];
 
 export function PDFOperations() {
   const [selectedFormat, setSelectedFormat] = useState<ConversionFormat['value']>('docx');
   const [pageRanges, setPageRanges] = useState<PageRange[]>([{ start: 1, end: 1 }]);
+  const [splitMode, setSplitMode] = useState<SplitMode['value']>('ranges');
+  const [pagesPerFile, setPagesPerFile] = useState(1);
+  const [imageFormat, setImageFormat] = useState<ImageFormat['value']>('png');
+  const [imagePages, setImagePages] = useState('');
+  const [imageDpi, setImageDpi] = useState(144);
+  const [pageRotations, setPageRotations] = useState<Record<number, number>>({});
+  const [organizerPages, setOrganizerPages] = useState<OrganizerPage[]>([]);
   const [compressionLevel, setCompressionLevel] = useState<'low' | 'medium' | 'high'>('medium');
+  const [compressionStrategy, setCompressionStrategy] = useState<CompressionStrategy['value']>('preserve');
+  const [compressionMode, setCompressionMode] = useState<'level' | 'target'>('level');
+  const [targetSizeMb, setTargetSizeMb] = useState(5);
+  const [allowRasterize, setAllowRasterize] = useState(false);
+  const [compressionReport, setCompressionReport] = useState<CompressionReport | null>(null);
+  const [watermarkOptions, setWatermarkOptions] = useState<WatermarkOptionsValue>(DEFAULT_WATERMARK_OPTIONS);
+  const [headerFooterOptions, setHeaderFooterOptions] = useState<HeaderFooterOptionsValue>(DEFAULT_HEADER_FOOTER_OPTIONS);
+  const [securityOptions, setSecurityOptions] = useState<SecurityOptionsValue>(DEFAULT_SECURITY_OPTIONS);
+  const [unlockPassword, setUnlockPassword] = useState('');
+  const [sanitizeOptions, setSanitizeOptions] = useState<SanitizeOptionsValue>(DEFAULT_SANITIZE_OPTIONS);
+  const [sanitizeReport, setSanitizeReport] = useState<SanitizeReport | null>(null);
+  const [mergeFileOptions, setMergeFileOptions] = useState<Map<PDFFile, MergeFileOptions>>(new Map());
+  const [mergePageSize, setMergePageSize] = useState<MergePageSize['value']>('original');
+  const [mergeImageOptions, setMergeImageOptions] = useState<ImagePageOptions>(DEFAULT_IMAGE_OPTIONS);
+  const [mergeBookmarks, setMergeBookmarks] = useState(false);
+  const [mergeToc, setMergeToc] = useState(false);
+  const [redactionAreas, setRedactionAreas] = useState<RedactionArea[]>([]);
+  const [formFill, setFormFill] = useState<FormFillValue>(DEFAULT_FORM_FILL);
+  const [outline, setOutline] = useState<OutlineEntry[]>([]);
+  const [outlineToc, setOutlineToc] = useState(false);
+  const [createOptions, setCreateOptions] = useState<CreatePdfOptionsValue>(DEFAULT_CREATE_PDF_OPTIONS);
   const [selectedFiles, setSelectedFiles] = useState<PDFFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedFile, setProcessedFile] = useState<{ url: string; filename: string } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState('merge');
+  // Page previews are rendered in the browser, so only for the tabs that show them
+  const thumbnailFile = (activeTab === 'rotate' || activeTab === 'organize') && selectedFiles[0]?.type === 'application/pdf'
+    ? selectedFiles[0]
+    : null;
+  const { thumbnails, isLoading: isLoadingThumbnails } = usePDFThumbnails(thumbnailFile);
+
+  // Start the organizer with the document's pages in their original order
+  useEffect(() => {
+    if (!isLoadingThumbnails && organizerPages.length === 0 && thumbnails.length > 0) {
+      setOrganizerPages(thumbnails.map(({ pageNumber }) => createOrganizerPage('page', pageNumber)));
+    }
+  }, [isLoadingThumbnails, thumbnails, organizerPages.length]);
 
   // Handle file selection for merge
   const handleMergeFileSelect = (files: PDFFile[]) => {
@@ -51,35 +183,60 @@ export function PDFOperations() {
     setProcessedFile(null);
   };
 
+  const hasMergeImages = selectedFiles.some((file) => file.type.startsWith('image/'));
+  // A single image can be turned into a PDF on its own
+  const canMerge = selectedFiles.length >= 2 || hasMergeImages;
+
   // Handle merge operation
   const handleMerge = async () => {
-    if (selectedFiles.length < 2) {
-      console.error('At least two PDFs are required for merging');
+    if (!canMerge) {
+      console.error('At least two PDFs, or one or more images, are required for merging');
       return;
     }
 
     setIsProcessing(true);
+    setError(null);
     try {
       const formData = new FormData();
       selectedFiles.forEach((file) => formData.append('files', file));
+      formData.append('manifest', JSON.stringify(selectedFiles.flatMap((file, i) => {
+        const options = mergeFileOptions.get(file) || DEFAULT_MERGE_FILE_OPTIONS;
+        const entry = { type: 'file', file: i, pages: options.pages };
+        // A separator after the last file would only add a trailing blank page
+        return options.blankAfter && i < selectedFiles.length - 1 ? [entry, { type: 'blank' }] : [entry];
+      })));
+      formData.append('pageSize', mergePageSize);
+      formData.append('imageOptions', JSON.stringify(mergeImageOptions));
+      formData.append('bookmarks', String(mergeBookmarks));
+      formData.append('toc', String(mergeToc));
 
       const response = await fetch('/api/pdf/merge', {
         method: 'POST',
         body: formData,
       });
 
-      if (!response.ok) throw new Error('Failed to merge PDFs');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to merge PDFs');
+      }
 
       const blob = await response.blob();
       const url = URL.createObjectURL(blob);
       setProcessedFile({ url, filename: 'merged.pdf' });
     } catch (error) {
       console.error('Error merging PDFs:', error);
+      setError(error instanceof Error ? error.message : 'Failed to merge PDFs');
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const updateMergeFileOptions = (file: PDFFile, changes: Partial<MergeFileOptions>) => {
+    const updated = new Map(mergeFileOptions);
+    updated.set(file, { ...(mergeFileOptions.get(file) || DEFAULT_MERGE_FILE_OPTIONS), ...changes });
+    setMergeFileOptions(updated);
+  };
+
   // Handle file selection for split
   const handleSplitFileSelect = (files: PDFFile[]) => {
     if (files[0]) {
@@ -96,44 +253,68 @@ export function PDFOperations() {
     }
 
     setIsProcessing(true);
+    setError(null);
     try {
       const formData = new FormData();
       formData.append('file', selectedFiles[0]);
+      formData.append('mode', splitMode);
       formData.append('ranges', JSON.stringify(pageRanges));
+      formData.append('pagesPerFile', String(pagesPerFile));
 
       const response = await fetch('/api/pdf/split', {
         method: 'POST',
         body: formData,
       });
 
-      if (!response.ok) throw new Error('Failed to split PDF');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to split PDF');
+      }
 
       const blob = await response.blob();
       const url = URL.createObjectURL(blob);
-      setProcessedFile({ url, filename: 'split.pdf' });
+      setProcessedFile({ url, filename: 'split.zip' });
     } catch (error) {
       console.error('Error splitting PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to split PDF');
     } finally {
       setIsProcessing(false);
     }
   };
 
-  // Handle download
-  const handleDownload = () => {
-    if (processedFile) {
-      const a = document.createElement('a');
-      a.href = processedFile.url;
-      a.download = processedFile.filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-    }
+  // Handle file selection for rotate
+  const handleRotateFileSelect = (files: PDFFile[]) => {
+    handleSplitFileSelect(files);
+    setPageRotations({});
   };
 
-  // Handle convert operation
-  const handleConvert = async () => {
+  // Rotate a single page preview by the given angle
+  const rotatePage = (pageNumber: number, angle: number) => {
+    setPageRotations(prev => ({
+      ...prev,
+      [pageNumber]: ((prev[pageNumber] || 0) + angle + 360) % 360,
+    }));
+    setProcessedFile(null);
+  };
+
+  // Rotate every page preview by the given angle
+  const rotateAllPages = (angle: number) => {
+    thumbnails.forEach(({ pageNumber }) => rotatePage(pageNumber, angle));
+  };
+
+  // Handle rotate operation
+  const handleRotate = async () => {
     if (!selectedFiles[0]) {
-      console.error('No PDF selected for conversion');
+      console.error('No PDF selected for rotation');
+      return;
+    }
+
+    const rotations = Object.entries(pageRotations)
+      .filter(([, angle]) => angle !== 0)
+      .map(([page, angle]) => ({ pages: page, angle, mode: 'relative' as const }));
+
+    if (rotations.length === 0) {
+      setError('Click on pages to rotate them before saving');
       return;
     }
 
@@ -142,292 +323,1676 @@ export function PDFOperations() {
     try {
       const formData = new FormData();
       formData.append('file', selectedFiles[0]);
-      formData.append('format', selectedFormat);
+      formData.append('rotations', JSON.stringify(rotations));
 
-      const response = await fetch('/api/pdf/convert', {
+      const response = await fetch('/api/pdf/rotate', {
         method: 'POST',
         body: formData,
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to convert PDF');
+        throw new Error(errorData.error || 'Failed to rotate PDF');
       }
 
       const blob = await response.blob();
       const url = URL.createObjectURL(blob);
-      const extension = selectedFormat === 'image' ? 'png' : selectedFormat === 'docx' ? 'docx' : 'txt';
-      setProcessedFile({ url, filename: `converted.${extension}` });
+      setProcessedFile({ url, filename: 'rotated.pdf' });
     } catch (error) {
-      console.error('Error converting PDF:', error);
-      setError(error instanceof Error ? error.message : 'Failed to convert PDF');
+      console.error('Error rotating PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to rotate PDF');
     } finally {
       setIsProcessing(false);
     }
   };
 
-  // Handle compress operation
-  const handleCompress = async () => {
+  // Handle file selection for organize
+  const handleOrganizeFileSelect = (files: PDFFile[]) => {
+    handleSplitFileSelect(files);
+    setOrganizerPages([]);
+  };
+
+  // Handle changes to the page order
+  const handleOrganizerChange = (pages: OrganizerPage[]) => {
+    setOrganizerPages(pages);
+    setProcessedFile(null);
+  };
+
+  // Handle organize operation
+  const handleOrganize = async () => {
     if (!selectedFiles[0]) {
-      console.error('No PDF selected for compression');
+      console.error('No PDF selected for organizing');
       return;
     }
 
     setIsProcessing(true);
     setError(null);
     try {
+      const manifest = organizerPages.map((page) =>
+        page.type === 'blank' ? { type: 'blank' } : { type: 'page', page: page.page }
+      );
+
       const formData = new FormData();
       formData.append('file', selectedFiles[0]);
-      formData.append('quality', compressionLevel);
+      formData.append('manifest', JSON.stringify(manifest));
 
-      const response = await fetch('/api/pdf/compress', {
+      const response = await fetch('/api/pdf/organize', {
         method: 'POST',
         body: formData,
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to compress PDF');
+        throw new Error(errorData.error || 'Failed to organize PDF');
       }
 
       const blob = await response.blob();
       const url = URL.createObjectURL(blob);
-      setProcessedFile({ url, filename: 'compressed.pdf' });
+      setProcessedFile({ url, filename: 'organized.pdf' });
     } catch (error) {
-      console.error('Error compressing PDF:', error);
-      setError(error instanceof Error ? error.message : 'Failed to compress PDF');
+      console.error('Error organizing PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to organize PDF');
     } finally {
       setIsProcessing(false);
     }
   };
 
-  return (
-    <Card>
-      <CardHeader>
-        <CardTitle>PDF Operations</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <Tabs defaultValue="merge" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="merge" className="flex items-center gap-2">
-              <MergeIcon className="h-4 w-4" />
-              Merge
-            </TabsTrigger>
-            <TabsTrigger value="split" className="flex items-center gap-2">
-              <Scissors className="h-4 w-4" />
-              Split
-            </TabsTrigger>
-            <TabsTrigger value="convert" className="flex items-center gap-2">
-              <FileOutput className="h-4 w-4" />
-              Convert
-            </TabsTrigger>
-            <TabsTrigger value="compress" className="flex items-center gap-2">
-              <Minimize2 className="h-4 w-4" />
-              Compress
-            </TabsTrigger>
-          </TabsList>
+  // Handle watermark operation
+  const handleWatermark = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for watermarking');
+      return;
+    }
 
-          <TabsContent value="merge">
-            <div className="space-y-4">
-              <p className="text-sm text-muted-foreground">
-                Select multiple PDFs to merge them into a single document.
-              </p>
-              <PDFManager
-                multiple
-                onFilesSelected={handleMergeFileSelect}
-              />
-              <div className="flex justify-end gap-4">
-                <Button
-                  onClick={handleMerge}
-                  disabled={selectedFiles.length < 2 || isProcessing}
-                >
-                  {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                  Merge PDFs
-                </Button>
-                {processedFile && (
-                  <Button
-                    variant="outline"
-                    onClick={handleDownload}
-                    className="flex items-center gap-2"
-                  >
-                    <Download className="h-4 w-4" />
-                    Download
-                  </Button>
-                )}
-              </div>
-            </div>
-          </TabsContent>
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('type', watermarkOptions.type);
+      formData.append('text', watermarkOptions.text);
+      formData.append('font', watermarkOptions.font);
+      formData.append('fontSize', String(watermarkOptions.fontSize));
+      formData.append('color', watermarkOptions.color);
+      formData.append('opacity', String(watermarkOptions.opacity));
+      formData.append('rotation', String(watermarkOptions.rotation));
+      formData.append('placement', watermarkOptions.placement);
+      formData.append('layer', watermarkOptions.layer);
+      formData.append('pages', watermarkOptions.pages);
+      formData.append('imageScale', String(watermarkOptions.imageScale));
+      if (watermarkOptions.type === 'image' && watermarkOptions.image) {
+        formData.append('image', watermarkOptions.image);
+      }
 
-          <TabsContent value="split">
-            <div className="space-y-4">
-              <p className="text-sm text-muted-foreground">
-                Split a PDF into multiple documents by specifying page ranges.
-              </p>
-              <div className="space-y-4">
-                <PDFManager
-                  onFilesSelected={handleSplitFileSelect}
-                />
-                <div className="space-y-2">
-                  {pageRanges.map((range, index) => (
-                    <div key={index} className="flex items-center gap-2">
-                      <div className="grid grid-cols-2 gap-2">
-                        <div className="space-y-2">
-                          <Label>Start Page</Label>
-                          <Input
-                            type="number"
-                            min={1}
-                            value={range.start}
-                            onChange={(e) => {
-                              const newRanges = [...pageRanges];
-                              newRanges[index].start = parseInt(e.target.value);
-                              setPageRanges(newRanges);
-                            }}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label>End Page</Label>
-                          <Input
-                            type="number"
-                            min={1}
-                            value={range.end}
-                            onChange={(e) => {
-                              const newRanges = [...pageRanges];
-                              newRanges[index].end = parseInt(e.target.value);
-                              setPageRanges(newRanges);
-                            }}
-                          />
-                        </div>
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="self-end"
-                        onClick={() => {
-                          if (pageRanges.length > 1) {
-                            setPageRanges(pageRanges.filter((_, i) => i !== index));
-                          }
-                        }}
-                      >
-                        <Minimize2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  ))}
-                  <div className="flex justify-between">
-                    <Button
-                      variant="outline"
-                      onClick={() => setPageRanges([...pageRanges, { start: 1, end: 1 }])}
-                    >
-                      Add Range
-                    </Button>
-                    <div className="flex gap-4">
-                      <Button
-                        onClick={handleSplit}
-                        disabled={!selectedFiles[0] || isProcessing}
-                      >
-                        {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                        Split PDF
-                      </Button>
-                      {processedFile && (
-                        <Button
-                          variant="outline"
-                          onClick={handleDownload}
-                          className="flex items-center gap-2"
-                        >
-                          <Download className="h-4 w-4" />
-                          Download
-                        </Button>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </TabsContent>
+      const response = await fetch('/api/pdf/watermark', {
+        method: 'POST',
+        body: formData,
+      });
 
-          <TabsContent value="convert">
-            <div className="space-y-4">
-              <p className="text-sm text-muted-foreground">
-                Convert your PDF to other formats.
-              </p>
-              <div className="space-y-4">
-                <PDFManager
-                  onFilesSelected={handleSplitFileSelect}
-                />
-                <div className="space-y-2">
-                  <Label>Output Format</Label>
-                  <div className="grid grid-cols-3 gap-2">
-                    {CONVERSION_FORMATS.map((format) => (
-                      <Button
-                        key={format.value}
-                        variant={selectedFormat === format.value ? 'default' : 'outline'}
-                        onClick={() => setSelectedFormat(format.value)}
-                        disabled={isProcessing}
-                      >
-                        {format.label}
-                      </Button>
-                    ))}
-                  </div>
-                </div>
-                <div className="flex justify-end gap-4">
-                  <Button
-                    onClick={handleConvert}
-                    disabled={!selectedFiles[0] || isProcessing}
-                  >
-                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Convert PDF
-                  </Button>
-                  {processedFile && (
-                    <Button
-                      variant="outline"
-                      onClick={handleDownload}
-                      className="flex items-center gap-2"
-                    >
-                      <Download className="h-4 w-4" />
-                      Download
-                    </Button>
-                  )}
-                </div>
-                {error && (
-                  <Alert variant="destructive">
-                    <AlertCircle className="h-4 w-4" />
-                    <AlertDescription>{error}</AlertDescription>
-                  </Alert>
-                )}
-              </div>
-            </div>
-          </TabsContent>
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to watermark PDF');
+      }
 
-          <TabsContent value="compress">
-            <div className="space-y-4">
-              <p className="text-sm text-muted-foreground">
-                Compress your PDF to reduce file size.
-              </p>
-              <div className="space-y-4">
-                <PDFManager
-                  onFilesSelected={handleSplitFileSelect}
-                />
-                <div className="space-y-2">
-                  <Label>Compression Level</Label>
-                  <div className="grid grid-cols-3 gap-2">
-                    {(['low', 'medium', 'high'] as const).map((level) => (
-                      <Button
-                        key={level}
-                        variant={compressionLevel === level ? 'default' : 'outline'}
-                        onClick={() => setCompressionLevel(level)}
-                        disabled={isProcessing}
-                      >
-                        {level.charAt(0).toUpperCase() + level.slice(1)}
-                      </Button>
-                    ))}
-                  </div>
-                </div>
-                <div className="flex justify-end gap-4">
-                  <Button
-                    onClick={handleCompress}
-                    disabled={!selectedFiles[0] || isProcessing}
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      setProcessedFile({ url, filename: 'watermarked.pdf' });
+    } catch (error) {
+      console.error('Error watermarking PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to watermark PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle header/footer operation
+  const handleHeaderFooter = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for page numbering');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      Object.entries(headerFooterOptions).forEach(([key, value]) => {
+        formData.append(key, String(value));
+      });
+
+      const response = await fetch('/api/pdf/header-footer', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add page numbers');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      setProcessedFile({ url, filename: 'numbered.pdf' });
+    } catch (error) {
+      console.error('Error adding page numbers:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add page numbers');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle encrypt operation
+  const handleEncrypt = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for encryption');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      Object.entries(securityOptions).forEach(([key, value]) => {
+        formData.append(key, String(value));
+      });
+
+      const response = await fetch('/api/pdf/encrypt', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to encrypt PDF');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      setProcessedFile({ url, filename: 'protected.pdf' });
+    } catch (error) {
+      console.error('Error encrypting PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to encrypt PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle decrypt operation
+  const handleDecrypt = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for decryption');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('password', unlockPassword);
+
+      const response = await fetch('/api/pdf/decrypt', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to decrypt PDF');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      setProcessedFile({ url, filename: 'unlocked.pdf' });
+    } catch (error) {
+      console.error('Error decrypting PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to decrypt PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle sanitize operation
+  const handleSanitize = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for sanitizing');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    setSanitizeReport(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('report', 'true');
+      Object.entries(sanitizeOptions).forEach(([key, value]) => {
+        formData.append(key, Array.isArray(value) ? value.join(',') : String(value));
+      });
+
+      const response = await fetch('/api/pdf/sanitize', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to sanitize PDF');
+      }
+
+      const parts = await response.formData();
+      const url = URL.createObjectURL(parts.get('file') as File);
+      setProcessedFile({ url, filename: 'clean.pdf' });
+      setSanitizeReport(JSON.parse(parts.get('report') as string));
+    } catch (error) {
+      console.error('Error sanitizing PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to sanitize PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle redact operation
+  const handleRedact = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for redaction');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('areas', JSON.stringify(redactionAreas));
+
+      const response = await fetch('/api/pdf/redact', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to redact PDF');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      setProcessedFile({ url, filename: 'redacted.pdf' });
+    } catch (error) {
+      console.error('Error redacting PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to redact PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle OCR operation
+  const handleOcr = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for OCR');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('output', 'pdf');
+
+      const response = await fetch('/api/pdf/ocr', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to run OCR on PDF');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      setProcessedFile({ url, filename: 'searchable.pdf' });
+    } catch (error) {
+      console.error('Error running OCR:', error);
+      setError(error instanceof Error ? error.message : 'Failed to run OCR on PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle form fill operation
+  const handleFillForm = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for form filling');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('values', JSON.stringify(formFill.values));
+      formData.append('flatten', String(formFill.flatten));
+      if (formFill.csv) {
+        formData.append('csv', formFill.csv);
+      }
+
+      const response = await fetch('/api/pdf/fill-form', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fill PDF form');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      setProcessedFile({ url, filename: formFill.csv ? 'filled.zip' : 'filled.pdf' });
+    } catch (error) {
+      console.error('Error filling PDF form:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fill PDF form');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle bookmarks operation
+  const handleSaveOutline = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for bookmark editing');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('outline', JSON.stringify(outline));
+      formData.append('toc', String(outlineToc));
+
+      const response = await fetch('/api/pdf/outline', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save bookmarks');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      setProcessedFile({ url, filename: 'bookmarked.pdf' });
+    } catch (error) {
+      console.error('Error saving bookmarks:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save bookmarks');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const canCreate = !!createOptions.file || !!createOptions.content.trim();
+
+  // Handle create operation
+  const handleCreate = async () => {
+    if (!canCreate) {
+      console.error('No content to create a PDF from');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const { content, file, images, ...options } = createOptions;
+      const formData = new FormData();
+      if (file) {
+        formData.append('file', file);
+      } else {
+        formData.append('content', content);
+      }
+      images.forEach((image) => formData.append('images', image));
+      formData.append('options', JSON.stringify(options));
+
+      const response = await fetch('/api/pdf/create', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create PDF');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const baseName = options.title.trim() || file?.name.replace(/\.[^.]+$/, '') || 'document';
+      setProcessedFile({ url, filename: `${baseName}.pdf` });
+    } catch (error) {
+      console.error('Error creating PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle download
+  const handleDownload = () => {
+    if (processedFile) {
+      const a = document.createElement('a');
+      a.href = processedFile.url;
+      a.download = processedFile.filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+    }
+  };
+
+  // Handle convert operation
+  const handleConvert = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for conversion');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('format', selectedFormat);
+      if (selectedFormat === 'image') {
+        formData.append('imageFormat', imageFormat);
+        formData.append('pages', imagePages);
+        formData.append('dpi', String(imageDpi));
+      }
+
+      const response = await fetch('/api/pdf/convert', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to convert PDF');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const imageExtension = IMAGE_FORMATS.find((format) => format.value === imageFormat)?.extension || 'png';
+      const extension = response.headers.get('Content-Type') === 'application/zip'
+        ? 'zip'
+        : selectedFormat === 'image' ? imageExtension : selectedFormat === 'docx' ? 'docx' : 'txt';
+      setProcessedFile({ url, filename: `converted.${extension}` });
+    } catch (error) {
+      console.error('Error converting PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to convert PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle compress operation
+  const handleCompress = async () => {
+    if (!selectedFiles[0]) {
+      console.error('No PDF selected for compression');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    setCompressionReport(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFiles[0]);
+      formData.append('quality', compressionLevel);
+      formData.append('strategy', compressionStrategy);
+      formData.append('report', 'true');
+      if (compressionMode === 'target') {
+        formData.append('targetSize', String(Math.round(targetSizeMb * 1024 * 1024)));
+        formData.append('allowRasterize', String(allowRasterize));
+      }
+
+      const response = await fetch('/api/pdf/compress', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to compress PDF');
+      }
+
+      const parts = await response.formData();
+      const url = URL.createObjectURL(parts.get('file') as File);
+      setProcessedFile({ url, filename: 'compressed.pdf' });
+      setCompressionReport(JSON.parse(parts.get('report') as string));
+    } catch (error) {
+      console.error('Error compressing PDF:', error);
+      setError(error instanceof Error ? error.message : 'Failed to compress PDF');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>PDF Operations</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="flex h-auto w-full flex-wrap">
+            <TabsTrigger value="merge" className="flex items-center gap-2">
+              <MergeIcon className="h-4 w-4" />
+              Merge
+            </TabsTrigger>
+            <TabsTrigger value="split" className="flex items-center gap-2">
+              <Scissors className="h-4 w-4" />
+              Split
+            </TabsTrigger>
+            <TabsTrigger value="convert" className="flex items-center gap-2">
+              <FileOutput className="h-4 w-4" />
+              Convert
+            </TabsTrigger>
+            <TabsTrigger value="compress" className="flex items-center gap-2">
+              <Minimize2 className="h-4 w-4" />
+              Compress
+            </TabsTrigger>
+            <TabsTrigger value="rotate" className="flex items-center gap-2">
+              <RotateCw className="h-4 w-4" />
+              Rotate
+            </TabsTrigger>
+            <TabsTrigger value="organize" className="flex items-center gap-2">
+              <LayoutGrid className="h-4 w-4" />
+              Organize
+            </TabsTrigger>
+            <TabsTrigger value="watermark" className="flex items-center gap-2">
+              <Stamp className="h-4 w-4" />
+              Watermark
+            </TabsTrigger>
+            <TabsTrigger value="numbering" className="flex items-center gap-2">
+              <Hash className="h-4 w-4" />
+              Page Numbers
+            </TabsTrigger>
+            <TabsTrigger value="protect" className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              Protect
+            </TabsTrigger>
+            <TabsTrigger value="unlock" className="flex items-center gap-2">
+              <Unlock className="h-4 w-4" />
+              Unlock
+            </TabsTrigger>
+            <TabsTrigger value="sanitize" className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Sanitize
+            </TabsTrigger>
+            <TabsTrigger value="redact" className="flex items-center gap-2">
+              <Eraser className="h-4 w-4" />
+              Redact
+            </TabsTrigger>
+            <TabsTrigger value="ocr" className="flex items-center gap-2">
+              <ScanText className="h-4 w-4" />
+              OCR
+            </TabsTrigger>
+            <TabsTrigger value="fill-form" className="flex items-center gap-2">
+              <FormInput className="h-4 w-4" />
+              Fill Form
+            </TabsTrigger>
+            <TabsTrigger value="bookmarks" className="flex items-center gap-2">
+              <Bookmark className="h-4 w-4" />
+              Bookmarks
+            </TabsTrigger>
+            <TabsTrigger value="create" className="flex items-center gap-2">
+              <FilePlus className="h-4 w-4" />
+              Create PDF
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="merge">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Select multiple PDFs or images to merge them into a single document. Drag files to change their order, and choose which pages to take from each.
+              </p>
+              <PDFManager
+                multiple
+                reorderable
+                acceptImages
+                onFilesSelected={handleMergeFileSelect}
+                renderFileOptions={(file) => {
+                  const options = mergeFileOptions.get(file) || DEFAULT_MERGE_FILE_OPTIONS;
+                  return (
+                    <div className="flex flex-col gap-2 px-3 md:flex-row md:items-center md:gap-4">
+                      <Input
+                        value={options.pages}
+                        onChange={(e) => updateMergeFileOptions(file, { pages: e.target.value })}
+                        placeholder="All pages (e.g. 1-3, 7)"
+                        className="md:w-64"
+                        disabled={isProcessing}
+                      />
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`merge-blank-${selectedFiles.indexOf(file)}`}
+                          checked={options.blankAfter}
+                          onCheckedChange={(checked) => updateMergeFileOptions(file, { blankAfter: checked })}
+                          disabled={isProcessing}
+                        />
+                        <Label htmlFor={`merge-blank-${selectedFiles.indexOf(file)}`}>Blank page after</Label>
+                      </div>
+                    </div>
+                  );
+                }}
+              />
+              {hasMergeImages && (
+                <ImagePageOptionsForm
+                  value={mergeImageOptions}
+                  onChange={setMergeImageOptions}
+                  disabled={isProcessing}
+                />
+              )}
+              <div className="space-y-2">
+                <Label>Page Size</Label>
+                <div className="flex flex-wrap gap-2">
+                  {MERGE_PAGE_SIZES.map((size) => (
+                    <Button
+                      key={size.value}
+                      variant={mergePageSize === size.value ? 'default' : 'outline'}
+                      onClick={() => setMergePageSize(size.value)}
+                      disabled={isProcessing}
+                    >
+                      {size.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="merge-bookmarks"
+                    checked={mergeBookmarks}
+                    onCheckedChange={setMergeBookmarks}
+                    disabled={isProcessing}
+                  />
+                  <Label htmlFor="merge-bookmarks">Add a bookmark for each file</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="merge-toc"
+                    checked={mergeToc}
+                    onCheckedChange={setMergeToc}
+                    disabled={isProcessing}
+                  />
+                  <Label htmlFor="merge-toc">Add a table of contents page</Label>
+                </div>
+              </div>
+              <div className="flex justify-end gap-4">
+                <Button
+                  onClick={handleMerge}
+                  disabled={!canMerge || isProcessing}
+                >
+                  {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Merge PDFs
+                </Button>
+                {processedFile && (
+                  <Button
+                    variant="outline"
+                    onClick={handleDownload}
+                    className="flex items-center gap-2"
+                  >
+                    <Download className="h-4 w-4" />
+                    Download
+                  </Button>
+                )}
+              </div>
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="split">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Split a PDF into separate documents, downloaded together as a ZIP archive.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                <div className="space-y-2">
+                  <Label>Split Mode</Label>
+                  <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+                    {SPLIT_MODES.map((mode) => (
+                      <Button
+                        key={mode.value}
+                        variant={splitMode === mode.value ? 'default' : 'outline'}
+                        onClick={() => setSplitMode(mode.value)}
+                        disabled={isProcessing}
+                      >
+                        {mode.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                {splitMode === 'ranges' && (
+                  <div className="space-y-2">
+                    {pageRanges.map((range, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <div className="grid grid-cols-2 gap-2">
+                          <div className="space-y-2">
+                            <Label>Start Page</Label>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={range.start}
+                              onChange={(e) => {
+                                const newRanges = [...pageRanges];
+                                newRanges[index].start = parseInt(e.target.value);
+                                setPageRanges(newRanges);
+                              }}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>End Page</Label>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={range.end}
+                              onChange={(e) => {
+                                const newRanges = [...pageRanges];
+                                newRanges[index].end = parseInt(e.target.value);
+                                setPageRanges(newRanges);
+                              }}
+                            />
+                          </div>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="self-end"
+                          onClick={() => {
+                            if (pageRanges.length > 1) {
+                              setPageRanges(pageRanges.filter((_, i) => i !== index));
+                            }
+                          }}
+                        >
+                          <Minimize2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      onClick={() => setPageRanges([...pageRanges, { start: 1, end: 1 }])}
+                    >
+                      Add Range
+                    </Button>
+                  </div>
+                )}
+                {splitMode === 'every' && (
+                  <div className="space-y-2">
+                    <Label>Pages per File</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={pagesPerFile}
+                      onChange={(e) => setPagesPerFile(parseInt(e.target.value))}
+                      disabled={isProcessing}
+                    />
+                  </div>
+                )}
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleSplit}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Split PDF
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="convert">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Convert your PDF to other formats.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                <div className="space-y-2">
+                  <Label>Output Format</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {CONVERSION_FORMATS.map((format) => (
+                      <Button
+                        key={format.value}
+                        variant={selectedFormat === format.value ? 'default' : 'outline'}
+                        onClick={() => setSelectedFormat(format.value)}
+                        disabled={isProcessing}
+                      >
+                        {format.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                {selectedFormat === 'image' && (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Image Format</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {IMAGE_FORMATS.map((format) => (
+                          <Button
+                            key={format.value}
+                            variant={imageFormat === format.value ? 'default' : 'outline'}
+                            onClick={() => setImageFormat(format.value)}
+                            disabled={isProcessing}
+                          >
+                            {format.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label>Pages</Label>
+                        <Input
+                          placeholder="All pages, or e.g. 1-3, 7"
+                          value={imagePages}
+                          onChange={(e) => setImagePages(e.target.value)}
+                          disabled={isProcessing}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Resolution (DPI)</Label>
+                        <Input
+                          type="number"
+                          min={36}
+                          max={600}
+                          value={imageDpi}
+                          onChange={(e) => setImageDpi(parseInt(e.target.value))}
+                          disabled={isProcessing}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Multiple pages are downloaded as a ZIP archive.
+                    </p>
+                  </div>
+                )}
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleConvert}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Convert PDF
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="compress">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Compress your PDF to reduce file size.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                <div className="space-y-2">
+                  <Label>Strategy</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {COMPRESSION_STRATEGIES.map((strategy) => (
+                      <Button
+                        key={strategy.value}
+                        variant={compressionStrategy === strategy.value ? 'default' : 'outline'}
+                        onClick={() => setCompressionStrategy(strategy.value)}
+                        disabled={isProcessing}
+                      >
+                        {strategy.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {COMPRESSION_STRATEGIES.find((strategy) => strategy.value === compressionStrategy)?.description}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Mode</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant={compressionMode === 'level' ? 'default' : 'outline'}
+                      onClick={() => setCompressionMode('level')}
+                      disabled={isProcessing}
+                    >
+                      Compression Level
+                    </Button>
+                    <Button
+                      variant={compressionMode === 'target' ? 'default' : 'outline'}
+                      onClick={() => setCompressionMode('target')}
+                      disabled={isProcessing}
+                    >
+                      Target Size
+                    </Button>
+                  </div>
+                </div>
+                {compressionMode === 'level' ? (
+                  <div className="space-y-2">
+                    <Label>Compression Level</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {(['low', 'medium', 'high'] as const).map((level) => (
+                        <Button
+                          key={level}
+                          variant={compressionLevel === level ? 'default' : 'outline'}
+                          onClick={() => setCompressionLevel(level)}
+                          disabled={isProcessing}
+                        >
+                          {level.charAt(0).toUpperCase() + level.slice(1)}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>Maximum Size (MB)</Label>
+                    <Input
+                      type="number"
+                      min={0.1}
+                      step={0.1}
+                      value={targetSizeMb}
+                      onChange={(e) => setTargetSizeMb(parseFloat(e.target.value))}
+                      disabled={isProcessing}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Quality is lowered step by step until the PDF fits.
+                    </p>
+                    {compressionStrategy === 'preserve' && (
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="compress-allow-rasterize"
+                          checked={allowRasterize}
+                          onCheckedChange={setAllowRasterize}
+                          disabled={isProcessing}
+                        />
+                        <Label htmlFor="compress-allow-rasterize">
+                          Flatten pages to images if the target cannot be reached otherwise
+                        </Label>
+                      </div>
+                    )}
+                  </div>
+                )}
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleCompress}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Compress PDF
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {compressionReport && <CompressionReportCard report={compressionReport} />}
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="rotate">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Click on a page to rotate it clockwise, then save the rotated PDF.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleRotateFileSelect}
+                />
+                {selectedFiles[0] && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Pages</Label>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => rotateAllPages(-90)}
+                          disabled={isProcessing || thumbnails.length === 0}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Rotate All Left
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => rotateAllPages(90)}
+                          disabled={isProcessing || thumbnails.length === 0}
+                        >
+                          <RotateCw className="mr-2 h-4 w-4" />
+                          Rotate All Right
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPageRotations({})}
+                          disabled={isProcessing}
+                        >
+                          Reset
+                        </Button>
+                      </div>
+                    </div>
+                    {isLoadingThumbnails && thumbnails.length === 0 && (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Rendering page previews...
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-6">
+                      {thumbnails.map((thumbnail) => (
+                        <button
+                          key={thumbnail.pageNumber}
+                          type="button"
+                          onClick={() => rotatePage(thumbnail.pageNumber, 90)}
+                          disabled={isProcessing}
+                          className="flex flex-col items-center gap-2 rounded-lg border p-2 hover:border-primary"
+                        >
+                          <div className="flex h-40 w-full items-center justify-center overflow-hidden">
+                            <img
+                              src={thumbnail.url}
+                              alt={`Page ${thumbnail.pageNumber}`}
+                              className="max-h-full max-w-full shadow transition-transform"
+                              style={{ transform: `rotate(${pageRotations[thumbnail.pageNumber] || 0}deg)` }}
+                            />
+                          </div>
+                          <span className="text-xs text-muted-foreground">
+                            Page {thumbnail.pageNumber}
+                            {pageRotations[thumbnail.pageNumber] ? ` (${pageRotations[thumbnail.pageNumber]}°)` : ''}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleRotate}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Rotate PDF
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="organize">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Drag pages to reorder them, or duplicate, delete and insert blank pages.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleOrganizeFileSelect}
+                />
+                {selectedFiles[0] && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Pages ({organizerPages.length})</Label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleOrganizerChange(
+                          thumbnails.map(({ pageNumber }) => createOrganizerPage('page', pageNumber))
+                        )}
+                        disabled={isProcessing || isLoadingThumbnails}
+                      >
+                        Reset
+                      </Button>
+                    </div>
+                    {isLoadingThumbnails && organizerPages.length === 0 && (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Rendering page previews...
+                      </div>
+                    )}
+                    <PDFPageOrganizer
+                      pages={organizerPages}
+                      thumbnails={thumbnails}
+                      onChange={handleOrganizerChange}
+                      disabled={isProcessing}
+                    />
+                  </div>
+                )}
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleOrganize}
+                    disabled={!selectedFiles[0] || organizerPages.length === 0 || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save PDF
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="watermark">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Stamp text or an image across the pages of your PDF.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                <WatermarkOptions
+                  value={watermarkOptions}
+                  onChange={setWatermarkOptions}
+                  disabled={isProcessing}
+                />
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleWatermark}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Add Watermark
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="numbering">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Stamp page numbers, Bates numbers, dates and custom text into headers and footers.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                <HeaderFooterOptions
+                  value={headerFooterOptions}
+                  onChange={setHeaderFooterOptions}
+                  disabled={isProcessing}
+                />
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleHeaderFooter}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Apply
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="protect">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Encrypt a PDF with a password and restrict printing, copying and editing.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                <SecurityOptions
+                  value={securityOptions}
+                  onChange={setSecurityOptions}
+                  disabled={isProcessing}
+                />
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleEncrypt}
+                    disabled={!selectedFiles[0] || isProcessing}
                   >
                     {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Compress PDF
+                    Protect PDF
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="unlock">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Remove the password and permission restrictions from a protected PDF.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                  unlockEncrypted={false}
+                />
+                <div className="space-y-2">
+                  <Label>Password</Label>
+                  <Input
+                    type="password"
+                    value={unlockPassword}
+                    onChange={(e) => setUnlockPassword(e.target.value)}
+                    placeholder="Leave empty if the file only restricts permissions"
+                    disabled={isProcessing}
+                  />
+                </div>
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleDecrypt}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Unlock PDF
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="sanitize">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Remove metadata, scripts, attachments, hidden layers, form data and comments before publishing a PDF externally.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                <SanitizeOptions
+                  value={sanitizeOptions}
+                  onChange={setSanitizeOptions}
+                  disabled={isProcessing}
+                />
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleSanitize}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Sanitize PDF
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {sanitizeReport && <SanitizeReportCard report={sanitizeReport} />}
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="redact">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Permanently remove sensitive text and images. Search for words or patterns, review the matches, or drag over areas of a page. Everything under a box is deleted from the file, not just covered.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                {selectedFiles[0] && (
+                  <RedactionEditor
+                    file={selectedFiles[0]}
+                    onAreasChange={setRedactionAreas}
+                    disabled={isProcessing}
+                  />
+                )}
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleRedact}
+                    disabled={!selectedFiles[0] || redactionAreas.length === 0 || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Apply Redactions
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="ocr">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Recognise the text in scanned pages and add it as an invisible layer, so the PDF can be searched, copied from and used in chat. Pages that already contain text are left unchanged.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleOcr}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Make Searchable
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="fill-form">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Fill in the interactive form fields of a PDF, optionally flattening them so the answers can no longer be changed. Upload a CSV to fill one copy per row.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                {selectedFiles[0] && (
+                  <PDFFormFiller
+                    file={selectedFiles[0]}
+                    value={formFill}
+                    onChange={setFormFill}
+                    disabled={isProcessing}
+                  />
+                )}
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleFillForm}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {formFill.csv ? 'Fill All Rows' : 'Fill Form'}
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="bookmarks">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Add, rename, nest and remove the bookmarks shown in the sidebar of PDF readers, and optionally generate a clickable table of contents page from them.
+              </p>
+              <div className="space-y-4">
+                <PDFManager
+                  onFilesSelected={handleSplitFileSelect}
+                />
+                {selectedFiles[0] && (
+                  <OutlineEditor
+                    file={selectedFiles[0]}
+                    onOutlineChange={setOutline}
+                    disabled={isProcessing}
+                  />
+                )}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="outline-toc"
+                    checked={outlineToc}
+                    onCheckedChange={setOutlineToc}
+                    disabled={isProcessing}
+                  />
+                  <Label htmlFor="outline-toc">Add a table of contents page from the bookmarks</Label>
+                </div>
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleSaveOutline}
+                    disabled={!selectedFiles[0] || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save Bookmarks
+                  </Button>
+                  {processedFile && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="create">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Write or upload Markdown or plain text and turn it into a styled PDF. Headings, lists, code blocks, tables and attached images are supported.
+              </p>
+              <div className="space-y-4">
+                <CreatePdfOptionsForm
+                  value={createOptions}
+                  onChange={(value) => {
+                    setCreateOptions(value);
+                    setProcessedFile(null);
+                  }}
+                  disabled={isProcessing}
+                />
+                <div className="flex justify-end gap-4">
+                  <Button
+                    onClick={handleCreate}
+                    disabled={!canCreate || isProcessing}
+                  >
+                    {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Create PDF
                   </Button>
                   {processedFile && (
                     <Button
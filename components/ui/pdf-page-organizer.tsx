@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './button';
+import { PDFThumbnail } from '@/hooks/use-pdf-thumbnails';
+import { cn } from '@/lib/utils';
+import { Copy, FilePlus, Trash2 } from 'lucide-react';
+
+export interface OrganizerPage {
+  id: string;
+  type: 'page' | 'blank';
+  page?: number;
+}
+
+interface PDFPageOrganizerProps {
+  pages: OrganizerPage[];
+  thumbnails: PDFThumbnail[];
+  onChange: (pages: OrganizerPage[]) => void;
+  disabled?: boolean;
+}
+
+let nextPageId = 0;
+
+export const createOrganizerPage = (type: OrganizerPage['type'], page?: number): OrganizerPage => ({
+  id: `organizer-page-${nextPageId++}`,
+  type,
+  page,
+});
+
+export function PDFPageOrganizer({ pages, thumbnails, onChange, disabled = false }: PDFPageOrganizerProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const handleDrop = (targetId: string) => {
+    if (!draggedId || draggedId === targetId) return;
+
+    const from = pages.findIndex(page => page.id === draggedId);
+    const to = pages.findIndex(page => page.id === targetId);
+    const reordered = [...pages];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+  };
+
+  const handleDuplicate = (index: number) => {
+    const source = pages[index];
+    const updated = [...pages];
+    updated.splice(index + 1, 0, createOrganizerPage(source.type, source.page));
+    onChange(updated);
+  };
+
+  const handleInsertBlank = (index: number) => {
+    const updated = [...pages];
+    updated.splice(index + 1, 0, createOrganizerPage('blank'));
+    onChange(updated);
+  };
+
+  const handleDelete = (index: number) => {
+    onChange(pages.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-6">
+      {pages.map((page, index) => {
+        const thumbnail = thumbnails.find(t => t.pageNumber === page.page);
+
+        return (
+          <div
+            key={page.id}
+            draggable={!disabled}
+            onDragStart={() => setDraggedId(page.id)}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropTargetId(null);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTargetId(page.id);
+            }}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(page.id);
+              setDropTargetId(null);
+            }}
+            className={cn(
+              "flex cursor-move flex-col items-center gap-2 rounded-lg border p-2",
+              draggedId === page.id && "opacity-50",
+              dropTargetId === page.id && draggedId !== page.id && "border-primary bg-primary/10"
+            )}
+          >
+            <div className="flex h-40 w-full items-center justify-center overflow-hidden">
+              {page.type === 'blank' ? (
+                <div className="flex h-36 w-28 items-center justify-center border bg-white text-xs text-muted-foreground shadow">
+                  Blank
+                </div>
+              ) : thumbnail ? (
+                <img
+                  src={thumbnail.url}
+                  alt={`Page ${page.page}`}
+                  className="max-h-full max-w-full shadow"
+                  draggable={false}
+                />
+              ) : (
+                <div className="h-36 w-28 animate-pulse rounded bg-muted" />
+              )}
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {index + 1}. {page.type === 'blank' ? 'Blank page' : `Page ${page.page}`}
+            </span>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Duplicate"
+                onClick={() => handleDuplicate(index)}
+                disabled={disabled}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Insert blank page after"
+                onClick={() => handleInsertBlank(index)}
+                disabled={disabled}
+              >
+                <FilePlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Delete"
+                onClick={() => handleDelete(index)}
+                disabled={disabled || pages.length <= 1}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from './button';
+import { Input } from './input';
+import { Label } from './label';
+import { Badge } from './badge';
+import { Alert, AlertDescription } from './alert';
+import type { PdfMetadata, PdfProperties } from '@/lib/pdf-metadata';
+import { AlertCircle, Eraser, Loader2, Save } from 'lucide-react';
+
+interface PDFPropertiesProps {
+  file: File;
+}
+
+const METADATA_FIELDS: { key: keyof PdfMetadata; label: string; type?: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'author', label: 'Author' },
+  { key: 'subject', label: 'Subject' },
+  { key: 'keywords', label: 'Keywords' },
+  { key: 'creator', label: 'Creator' },
+  { key: 'producer', label: 'Producer' },
+  { key: 'creationDate', label: 'Created', type: 'datetime-local' },
+  { key: 'modificationDate', label: 'Modified', type: 'datetime-local' },
+];
+
+// Fields that identify the people and tools behind a document
+const IDENTIFYING_FIELDS: (keyof PdfMetadata)[] = ['author', 'creator', 'producer'];
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : '');
+
+export function PDFProperties({ file }: PDFPropertiesProps) {
+  const [properties, setProperties] = useState<PdfProperties | null>(null);
+  const [metadata, setMetadata] = useState<PdfMetadata | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProperties = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await fetch('/api/pdf/metadata/read', {
+          method: 'POST',
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to read PDF properties');
+        }
+
+        const data = await response.json();
+        if (!cancelled) {
+          setProperties(data.properties);
+          setMetadata(data.properties.metadata);
+        }
+      } catch (error) {
+        console.error('Error reading PDF properties:', error);
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to read PDF properties');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadProperties();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const handleSave = async () => {
+    if (!metadata) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('metadata', JSON.stringify(metadata));
+
+      const response = await fetch('/api/pdf/metadata', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update PDF metadata');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error updating PDF metadata:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update PDF metadata');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleScrub = () => {
+    if (!metadata) return;
+    setMetadata({
+      ...metadata,
+      ...Object.fromEntries(IDENTIFYING_FIELDS.map((key) => [key, ''])),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Reading properties...
+      </div>
+    );
+  }
+
+  if (!properties) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm md:grid-cols-4">
+        <dt className="text-muted-foreground">Pages</dt>
+        <dd>{properties.pageCount}</dd>
+        <dt className="text-muted-foreground">PDF version</dt>
+        <dd>{properties.version}</dd>
+        <dt className="text-muted-foreground">Page sizes</dt>
+        <dd className="md:col-span-3">
+          {properties.pageSizes
+            .map((size) => `${size.width} × ${size.height} pt (${size.count} page${size.count === 1 ? '' : 's'})`)
+            .join(', ')}
+        </dd>
+        <dt className="text-muted-foreground">Encryption</dt>
+        <dd className="md:col-span-3">{properties.encryption || 'None'}</dd>
+      </dl>
+
+      <div className="space-y-2">
+        <Label>Fonts</Label>
+        {properties.fonts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No fonts used</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {properties.fonts.map((font) => (
+              <Badge key={`${font.name}-${font.type}-${font.embedded}`} variant="secondary">
+                {font.name} · {font.type}
+                {font.embedded ? (font.subset ? ' · embedded subset' : ' · embedded') : ' · not embedded'}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {metadata ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            {METADATA_FIELDS.map(({ key, label, type }) => (
+              <div key={key} className="space-y-2">
+                <Label>{label}</Label>
+                <Input
+                  type={type || 'text'}
+                  value={type ? toLocalInput(metadata[key]) : metadata[key]}
+                  onChange={(e) =>
+                    setMetadata({
+                      ...metadata,
+                      [key]: type ? fromLocalInput(e.target.value) : e.target.value,
+                    })
+                  }
+                  disabled={isSaving}
+                />
+              </div>
+            ))}
+          </div>
+
+          {properties.xmp && (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-muted-foreground">XMP metadata</summary>
+              <pre className="mt-2 max-h-48 overflow-auto rounded bg-muted p-2 text-xs">{properties.xmp}</pre>
+            </details>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleScrub} disabled={isSaving}>
+              <Eraser className="mr-2 h-4 w-4" />
+              Clear Author Fields
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save &amp; Download
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Metadata is encrypted. Unlock the PDF to view or edit it.
+        </p>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,22 @@
 'use client';
 
-import { useCallback, useState } from 'react';
+import { useCallback, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
+import { PDFDocument } from 'pdf-lib';
 import { Progress } from './progress';
+import { Button } from './button';
+import { Input } from './input';
+import { Label } from './label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './dialog';
 import { cn } from '@/lib/utils';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, Lock } from 'lucide-react';
 import { Alert, AlertDescription } from './alert';
 
 export interface PDFFile extends File {
@@ -15,16 +27,98 @@ interface PDFUploadProps {
   onUpload: (files: PDFFile[]) => void;
   multiple?: boolean;
   maxSize?: number;
+  // Prompt for the password of encrypted PDFs and pass on the unlocked copy
+  unlockEncrypted?: boolean;
+  // Also take JPEG, PNG, WebP and TIFF images, e.g. for merging
+  acceptImages?: boolean;
+}
+
+const IMAGE_TYPES = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'image/tiff': ['.tif', '.tiff'],
+};
+
+interface PasswordRequest {
+  fileName: string;
+  error?: string;
+}
+
+async function isEncrypted(file: File) {
+  try {
+    const pdfDoc = await PDFDocument.load(await file.arrayBuffer(), {
+      ignoreEncryption: true,
+      updateMetadata: false,
+    });
+    return pdfDoc.isEncrypted;
+  } catch {
+    // Leave unreadable files to the operation that uses them
+    return false;
+  }
 }
 
 export function PDFUpload({
   onUpload,
   multiple = false,
   maxSize = 100 * 1024 * 1024, // 100MB default
+  unlockEncrypted = true,
+  acceptImages = false,
 }: PDFUploadProps) {
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null);
+  const [password, setPassword] = useState('');
+  const passwordResolver = useRef<((password: string | null) => void) | null>(null);
+
+  // Resolves with the entered password, or null if the user cancels
+  const requestPassword = (request: PasswordRequest) =>
+    new Promise<string | null>((resolve) => {
+      passwordResolver.current = resolve;
+      setPassword('');
+      setPasswordRequest(request);
+    });
+
+  const resolvePassword = (value: string | null) => {
+    passwordResolver.current?.(value);
+    passwordResolver.current = null;
+    setPasswordRequest(null);
+  };
+
+  // Files that only restrict permissions open without a password, so try that first
+  const unlockFile = async (file: File): Promise<File | null> => {
+    let attempt = '';
+    for (;;) {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('password', attempt);
+
+      const response = await fetch('/api/pdf/decrypt', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        return new File([blob], file.name, { type: 'application/pdf' });
+      }
+
+      const errorData = await response.json();
+      if (response.status !== 401) {
+        throw new Error(errorData.error || `Failed to unlock ${file.name}`);
+      }
+
+      const entered = await requestPassword({
+        fileName: file.name,
+        error: attempt ? errorData.error : undefined,
+      });
+      if (entered === null) {
+        return null;
+      }
+      attempt = entered;
+    }
+  };
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
@@ -39,8 +133,23 @@ export function PDFUpload({
           throw new Error(`File${oversizedFiles.length > 1 ? 's' : ''} too large. Maximum size is ${Math.floor(maxSize / 1024 / 1024)}MB`);
         }
 
+        // Unlock password-protected files before any operation sees them
+        let readableFiles = acceptedFiles;
+        if (unlockEncrypted) {
+          readableFiles = [];
+          for (const file of acceptedFiles) {
+            const unlocked = file.type === 'application/pdf' && (await isEncrypted(file)) ? await unlockFile(file) : file;
+            if (unlocked) {
+              readableFiles.push(unlocked);
+            }
+          }
+          if (readableFiles.length === 0) {
+            throw new Error('Password-protected PDFs must be unlocked before they can be used');
+          }
+        }
+
         // Convert to PDFFile type and add preview URLs
-        const pdfFiles = acceptedFiles.map(file => 
+        const pdfFiles = readableFiles.map(file => 
           Object.assign(file, {
             preview: URL.createObjectURL(file)
           })
@@ -67,13 +176,14 @@ export function PDFUpload({
         setProgress(0);
       }
     },
-    [maxSize, onUpload]
+    [maxSize, onUpload, unlockEncrypted]
   );
 
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
     accept: {
-      'application/pdf': ['.pdf']
+      'application/pdf': ['.pdf'],
+      ...(acceptImages && IMAGE_TYPES),
     },
     multiple,
     maxSize
@@ -91,10 +201,10 @@ export function PDFUpload({
       >
         <input {...getInputProps()} />
         {isDragActive ? (
-          <p>Drop the PDF{multiple ? 's' : ''} here...</p>
+          <p>Drop the PDF{multiple ? 's' : ''}{acceptImages && ' or images'} here...</p>
         ) : (
           <p>
-            Drag & drop PDF{multiple ? 's' : ''} here, or click to select
+            Drag & drop PDF{multiple ? 's' : ''}{acceptImages && ' or images'} here, or click to select
           </p>
         )}
         {uploading && <Progress value={progress} className="mt-4" />}
@@ -106,6 +216,52 @@ export function PDFUpload({
           <AlertDescription>{error}</AlertDescription>
         </Alert>
       )}
+
+      <Dialog
+        open={passwordRequest !== null}
+        onOpenChange={(open) => !open && resolvePassword(null)}
+      >
+        <DialogContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              resolvePassword(password);
+            }}
+            className="space-y-4"
+          >
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Password required
+              </DialogTitle>
+              <DialogDescription>
+                {passwordRequest?.fileName} is password-protected. Enter its password to continue.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="pdf-password">Password</Label>
+              <Input
+                id="pdf-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+              />
+              {passwordRequest?.error && (
+                <p className="text-sm text-destructive">{passwordRequest.error}</p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => resolvePassword(null)}>
+                Skip File
+              </Button>
+              <Button type="submit" disabled={!password}>
+                Unlock
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 } 
\ No newline at end of file
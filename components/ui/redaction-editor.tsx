@@ -0,0 +1,322 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './button';
+import { Checkbox } from './checkbox';
+import { Input } from './input';
+import { Label } from './label';
+import { Textarea } from './textarea';
+import { ScrollArea } from './scroll-area';
+import { Alert, AlertDescription } from './alert';
+import { usePDFThumbnails } from '@/hooks/use-pdf-thumbnails';
+import { REDACTION_PRESETS } from '@/lib/redaction-patterns';
+import type { RedactionArea, RedactionMatch } from '@/lib/redaction';
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2, Search, X } from 'lucide-react';
+
+interface RedactionEditorProps {
+  file: File;
+  onAreasChange: (areas: RedactionArea[]) => void;
+  disabled?: boolean;
+}
+
+// Width the page preview is rendered at; areas are stored as fractions so this only affects sharpness
+const PREVIEW_WIDTH = 600;
+
+// Drags smaller than this share of the page are treated as clicks
+const MIN_REGION_SIZE = 0.005;
+
+const areaStyle = (area: Pick<RedactionArea, 'x' | 'y' | 'width' | 'height'>) => ({
+  left: `${area.x * 100}%`,
+  top: `${area.y * 100}%`,
+  width: `${area.width * 100}%`,
+  height: `${area.height * 100}%`,
+});
+
+export function RedactionEditor({ file, onAreasChange, disabled = false }: RedactionEditorProps) {
+  const { thumbnails, isLoading: isRendering } = usePDFThumbnails(file, PREVIEW_WIDTH);
+  const [terms, setTerms] = useState('');
+  const [presets, setPresets] = useState<string[]>([]);
+  const [regex, setRegex] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [matches, setMatches] = useState<RedactionMatch[]>([]);
+  const [selectedMatches, setSelectedMatches] = useState<Set<string>>(new Set());
+  const [regions, setRegions] = useState<RedactionArea[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [draft, setDraft] = useState<{ startX: number; startY: number; x: number; y: number } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+
+  // A different file invalidates every match and region
+  useEffect(() => {
+    setMatches([]);
+    setSelectedMatches(new Set());
+    setRegions([]);
+    setCurrentPage(1);
+    setError(null);
+  }, [file]);
+
+  useEffect(() => {
+    onAreasChange([
+      ...matches.filter((match) => selectedMatches.has(match.id)).flatMap((match) => match.areas),
+      ...regions,
+    ]);
+  }, [matches, selectedMatches, regions, onAreasChange]);
+
+  const handleFindMatches = async () => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('preview', 'true');
+      formData.append('terms', JSON.stringify(terms.split('\n')));
+      formData.append('presets', presets.join(','));
+      formData.append('regex', regex);
+      formData.append('caseSensitive', String(caseSensitive));
+
+      const response = await fetch('/api/pdf/redact', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to search PDF');
+      }
+
+      const data: { matches: RedactionMatch[] } = await response.json();
+      setMatches(data.matches);
+      setSelectedMatches(new Set(data.matches.map((match) => match.id)));
+      if (data.matches.length > 0) {
+        setCurrentPage(data.matches[0].page);
+      }
+    } catch (error) {
+      console.error('Error searching PDF for redaction:', error);
+      setError(error instanceof Error ? error.message : 'Failed to search PDF');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const toggleMatch = (id: string, checked: boolean) => {
+    const next = new Set(selectedMatches);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedMatches(next);
+  };
+
+  const togglePreset = (id: string, checked: boolean) => {
+    setPresets(checked ? [...presets, id] : presets.filter((preset) => preset !== id));
+  };
+
+  // Pointer position as a fraction of the rendered page
+  const getPosition = (event: React.MouseEvent) => {
+    const bounds = pageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((event.clientX - bounds.left) / bounds.width, 0), 1),
+      y: Math.min(Math.max((event.clientY - bounds.top) / bounds.height, 0), 1),
+    };
+  };
+
+  const draftArea = draft && {
+    x: Math.min(draft.startX, draft.x),
+    y: Math.min(draft.startY, draft.y),
+    width: Math.abs(draft.x - draft.startX),
+    height: Math.abs(draft.y - draft.startY),
+  };
+
+  const handleMouseUp = () => {
+    if (draftArea && draftArea.width > MIN_REGION_SIZE && draftArea.height > MIN_REGION_SIZE) {
+      setRegions([...regions, { page: currentPage, ...draftArea }]);
+    }
+    setDraft(null);
+  };
+
+  const thumbnail = thumbnails.find((page) => page.pageNumber === currentPage);
+  const pageMatches = matches.filter((match) => match.page === currentPage);
+  const pageRegions = regions.filter((region) => region.page === currentPage);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Words or phrases (one per line)</Label>
+          <Textarea
+            value={terms}
+            onChange={(e) => setTerms(e.target.value)}
+            placeholder={'Jane Doe\nProject Falcon'}
+            rows={4}
+            disabled={disabled || isSearching}
+          />
+        </div>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Patterns</Label>
+            {REDACTION_PRESETS.map((preset) => (
+              <div key={preset.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`redact-${preset.id}`}
+                  checked={presets.includes(preset.id)}
+                  onCheckedChange={(checked) => togglePreset(preset.id, checked === true)}
+                  disabled={disabled || isSearching}
+                />
+                <Label htmlFor={`redact-${preset.id}`} className="font-normal">
+                  {preset.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>Regular expression</Label>
+            <Input
+              value={regex}
+              onChange={(e) => setRegex(e.target.value)}
+              placeholder="e.g. ACCT-\d{6}"
+              disabled={disabled || isSearching}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="redact-case-sensitive"
+              checked={caseSensitive}
+              onCheckedChange={(checked) => setCaseSensitive(checked === true)}
+              disabled={disabled || isSearching}
+            />
+            <Label htmlFor="redact-case-sensitive" className="font-normal">
+              Match case
+            </Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={handleFindMatches} disabled={disabled || isSearching}>
+          {isSearching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+          Find Matches
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-[1fr_280px]">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">Drag on the page to mark a region for redaction.</p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setCurrentPage(currentPage - 1)}
+                disabled={currentPage <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm">
+                Page {currentPage} of {thumbnails.length || '…'}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setCurrentPage(currentPage + 1)}
+                disabled={currentPage >= thumbnails.length}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {thumbnail ? (
+            <div
+              ref={pageRef}
+              className="relative mx-auto max-w-[600px] cursor-crosshair select-none border"
+              onMouseDown={(event) => {
+                if (disabled) return;
+                const { x, y } = getPosition(event);
+                setDraft({ startX: x, startY: y, x, y });
+              }}
+              onMouseMove={(event) => draft && setDraft({ ...draft, ...getPosition(event) })}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+            >
+              <img src={thumbnail.url} alt={`Page ${currentPage}`} className="w-full" draggable={false} />
+              {pageMatches.flatMap((match) =>
+                match.areas.map((area, i) => (
+                  <div
+                    key={`${match.id}-${i}`}
+                    className={
+                      selectedMatches.has(match.id)
+                        ? 'absolute bg-black/70'
+                        : 'absolute border border-dashed border-red-500'
+                    }
+                    style={areaStyle(area)}
+                  />
+                ))
+              )}
+              {pageRegions.map((region) => (
+                <div key={regions.indexOf(region)} className="absolute bg-black/70" style={areaStyle(region)}>
+                  <button
+                    type="button"
+                    className="absolute -right-2 -top-2 rounded-full bg-background p-0.5 shadow"
+                    onMouseDown={(event) => event.stopPropagation()}
+                    onClick={() => setRegions(regions.filter((other) => other !== region))}
+                    disabled={disabled}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {draftArea && <div className="absolute border-2 border-red-500 bg-red-500/20" style={areaStyle(draftArea)} />}
+            </div>
+          ) : (
+            <div className="flex h-64 items-center justify-center gap-2 text-sm text-muted-foreground">
+              {isRendering && <Loader2 className="h-4 w-4 animate-spin" />}
+              Rendering page preview...
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>
+            Matches ({selectedMatches.size} of {matches.length} selected)
+          </Label>
+          <ScrollArea className="h-[400px] rounded-md border p-2">
+            {matches.length === 0 ? (
+              <p className="p-2 text-sm text-muted-foreground">Search for text to preview what will be removed.</p>
+            ) : (
+              matches.map((match) => (
+                <div key={match.id} className="flex items-center gap-2 py-1">
+                  <Checkbox
+                    checked={selectedMatches.has(match.id)}
+                    onCheckedChange={(checked) => toggleMatch(match.id, checked === true)}
+                    disabled={disabled}
+                  />
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 truncate text-left text-sm hover:underline"
+                    onClick={() => setCurrentPage(match.page)}
+                  >
+                    <span className="text-muted-foreground">p. {match.page}</span> {match.text}
+                  </button>
+                </div>
+              ))
+            )}
+          </ScrollArea>
+          {regions.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {regions.length} region{regions.length === 1 ? '' : 's'} drawn
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { Checkbox } from './checkbox';
+import { Label } from './label';
+
+export interface SanitizeOptionsValue {
+  metadata: boolean;
+  javascript: boolean;
+  attachments: boolean;
+  hiddenLayers: boolean;
+  forms: boolean;
+  thumbnails: boolean;
+  annotationTypes: string[];
+}
+
+interface SanitizeOptionsProps {
+  value: SanitizeOptionsValue;
+  onChange: (value: SanitizeOptionsValue) => void;
+  disabled?: boolean;
+}
+
+const CONTENT_OPTIONS = [
+  { key: 'metadata', label: 'Document info, XMP metadata and private application data' },
+  { key: 'javascript', label: 'Embedded JavaScript' },
+  { key: 'attachments', label: 'File attachments' },
+  { key: 'hiddenLayers', label: 'Hidden layers (optional content)' },
+  { key: 'forms', label: 'Form fields and their data' },
+  { key: 'thumbnails', label: 'Page thumbnails' },
+] as const;
+
+const ANNOTATION_TYPES = [
+  { value: 'Text', label: 'Sticky notes' },
+  { value: 'FreeText', label: 'Text boxes' },
+  { value: 'Highlight', label: 'Highlights' },
+  { value: 'Underline', label: 'Underlines' },
+  { value: 'StrikeOut', label: 'Strikeouts' },
+  { value: 'Squiggly', label: 'Squiggly lines' },
+  { value: 'Caret', label: 'Insertion marks' },
+  { value: 'Ink', label: 'Freehand drawings' },
+  { value: 'Stamp', label: 'Stamps' },
+  { value: 'Square', label: 'Rectangles' },
+  { value: 'Circle', label: 'Ellipses' },
+  { value: 'Line', label: 'Lines and arrows' },
+  { value: 'Polygon', label: 'Polygons' },
+  { value: 'PolyLine', label: 'Polylines' },
+  { value: 'Popup', label: 'Pop-up notes' },
+  { value: 'Link', label: 'Links' },
+];
+
+export const DEFAULT_SANITIZE_OPTIONS: SanitizeOptionsValue = {
+  metadata: true,
+  javascript: true,
+  attachments: true,
+  hiddenLayers: true,
+  forms: true,
+  thumbnails: true,
+  annotationTypes: ['Text', 'FreeText', 'Highlight', 'Underline', 'StrikeOut', 'Squiggly', 'Caret', 'Ink', 'Stamp', 'Popup'],
+};
+
+export function SanitizeOptions({ value, onChange, disabled = false }: SanitizeOptionsProps) {
+  const toggleAnnotationType = (type: string, checked: boolean) => {
+    onChange({
+      ...value,
+      annotationTypes: checked
+        ? [...value.annotationTypes, type]
+        : value.annotationTypes.filter((selected) => selected !== type),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Remove</Label>
+        {CONTENT_OPTIONS.map(({ key, label }) => (
+          <div key={key} className="flex items-center gap-2">
+            <Checkbox
+              id={`sanitize-${key}`}
+              checked={value[key]}
+              onCheckedChange={(checked) => onChange({ ...value, [key]: checked === true })}
+              disabled={disabled}
+            />
+            <Label htmlFor={`sanitize-${key}`} className="font-normal">{label}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Annotations</Label>
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+          {ANNOTATION_TYPES.map(({ value: type, label }) => (
+            <div key={type} className="flex items-center gap-2">
+              <Checkbox
+                id={`sanitize-annotation-${type}`}
+                checked={value.annotationTypes.includes(type)}
+                onCheckedChange={(checked) => toggleAnnotationType(type, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`sanitize-annotation-${type}`} className="font-normal">{label}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        The cleaned file is always rewritten from scratch, which also discards earlier revisions kept by incremental saves.
+      </p>
+    </div>
+  );
+}
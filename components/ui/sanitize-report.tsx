@@ -0,0 +1,110 @@
+'use client';
+
+import { Card, CardContent } from './card';
+import { formatFileSize } from './compression-report';
+import { CheckCircle2 } from 'lucide-react';
+
+export interface SanitizeReport {
+  documentInfo: string[];
+  xmpStreams: number;
+  privateData: number;
+  javascript: number;
+  attachments: string[];
+  hiddenLayers: string[];
+  hiddenContent: number;
+  formFields: number;
+  annotations: Record<string, number>;
+  thumbnails: number;
+  previousRevisions: number;
+  unreferencedObjects: number;
+  originalSize: number;
+  finalSize: number;
+}
+
+interface SanitizeReportCardProps {
+  report: SanitizeReport;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export function SanitizeReportCard({ report }: SanitizeReportCardProps) {
+  const annotationCount = Object.values(report.annotations).reduce((total, count) => total + count, 0);
+  const rows = [
+    {
+      label: 'Document info',
+      value: report.documentInfo.length > 0 ? report.documentInfo.join(', ') : null,
+    },
+    {
+      label: 'XMP metadata',
+      value: report.xmpStreams > 0 ? plural(report.xmpStreams, 'stream') : null,
+    },
+    {
+      label: 'Private application data',
+      value: report.privateData > 0 ? plural(report.privateData, 'entry') : null,
+    },
+    {
+      label: 'JavaScript',
+      value: report.javascript > 0 ? plural(report.javascript, 'script') : null,
+    },
+    {
+      label: 'Attachments',
+      value: report.attachments.length > 0 ? report.attachments.join(', ') : null,
+    },
+    {
+      label: 'Hidden layers',
+      value: report.hiddenLayers.length > 0
+        ? `${report.hiddenLayers.join(', ')} (${plural(report.hiddenContent, 'content section')})`
+        : null,
+    },
+    {
+      label: 'Form fields',
+      value: report.formFields > 0 ? plural(report.formFields, 'field') : null,
+    },
+    {
+      label: 'Annotations',
+      value: annotationCount > 0
+        ? Object.entries(report.annotations).map(([type, count]) => `${type}: ${count}`).join(', ')
+        : null,
+    },
+    {
+      label: 'Thumbnails',
+      value: report.thumbnails > 0 ? plural(report.thumbnails, 'thumbnail') : null,
+    },
+    {
+      label: 'Earlier revisions',
+      value: report.previousRevisions > 0 ? plural(report.previousRevisions, 'incremental update') : null,
+    },
+    {
+      label: 'Unreferenced objects',
+      value: report.unreferencedObjects > 0 ? plural(report.unreferencedObjects, 'object') : null,
+    },
+  ];
+  const removed = rows.filter((row) => row.value !== null);
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-4">
+        <div className="flex items-center gap-2 text-sm">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          {removed.length > 0
+            ? `Removed ${plural(removed.length, 'kind')} of hidden content`
+            : 'Nothing needed removing'}
+          <span className="text-muted-foreground">
+            ({formatFileSize(report.originalSize)} → {formatFileSize(report.finalSize)})
+          </span>
+        </div>
+
+        {removed.length > 0 && (
+          <dl className="grid grid-cols-1 gap-x-4 gap-y-2 text-sm md:grid-cols-[200px_1fr]">
+            {removed.map((row) => (
+              <div key={row.label} className="contents">
+                <dt className="text-muted-foreground">{row.label}</dt>
+                <dd className="break-words">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { Button } from './button';
+import { Input } from './input';
+import { Label } from './label';
+import { Switch } from './switch';
+
+export interface SecurityOptionsValue {
+  userPassword: string;
+  ownerPassword: string;
+  algorithm: 'AES-128' | 'AES-256';
+  allowPrinting: boolean;
+  allowCopying: boolean;
+  allowEditing: boolean;
+}
+
+interface SecurityOptionsProps {
+  value: SecurityOptionsValue;
+  onChange: (value: SecurityOptionsValue) => void;
+  disabled?: boolean;
+}
+
+export const DEFAULT_SECURITY_OPTIONS: SecurityOptionsValue = {
+  userPassword: '',
+  ownerPassword: '',
+  algorithm: 'AES-256',
+  allowPrinting: true,
+  allowCopying: false,
+  allowEditing: false,
+};
+
+const PERMISSIONS = [
+  { key: 'allowPrinting', label: 'Allow printing' },
+  { key: 'allowCopying', label: 'Allow copying text and images' },
+  { key: 'allowEditing', label: 'Allow editing, comments and form filling' },
+] as const;
+
+export function SecurityOptions({ value, onChange, disabled = false }: SecurityOptionsProps) {
+  const update = <K extends keyof SecurityOptionsValue>(key: K, fieldValue: SecurityOptionsValue[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Password to Open</Label>
+          <Input
+            type="password"
+            value={value.userPassword}
+            onChange={(e) => update('userPassword', e.target.value)}
+            placeholder="Leave empty to open without a password"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Owner Password</Label>
+          <Input
+            type="password"
+            value={value.ownerPassword}
+            onChange={(e) => update('ownerPassword', e.target.value)}
+            placeholder="Required to change permissions"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Encryption</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {(['AES-256', 'AES-128'] as const).map((algorithm) => (
+            <Button
+              key={algorithm}
+              variant={value.algorithm === algorithm ? 'default' : 'outline'}
+              onClick={() => update('algorithm', algorithm)}
+              disabled={disabled}
+            >
+              {algorithm}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Permissions</Label>
+        {PERMISSIONS.map(({ key, label }) => (
+          <div key={key} className="flex items-center gap-2">
+            <Switch
+              id={key}
+              checked={value[key]}
+              onCheckedChange={(checked) => update(key, checked)}
+              disabled={disabled}
+            />
+            <Label htmlFor={key}>{label}</Label>
+          </div>
+        ))}
+        <p className="text-sm text-muted-foreground">
+          Permissions are enforced by PDF readers and apply to anyone who opens the file without the owner password.
+        </p>
+      </div>
+    </div>
+  );
+}
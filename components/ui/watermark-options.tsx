@@ -0,0 +1,222 @@
+'use client';
+
+import { Button } from './button';
+import { Input } from './input';
+import { Label } from './label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+
+export interface WatermarkOptionsValue {
+  type: 'text' | 'image';
+  text: string;
+  font: string;
+  fontSize: number;
+  color: string;
+  opacity: number;
+  rotation: number;
+  placement: 'center' | 'tile';
+  layer: 'over' | 'behind';
+  pages: string;
+  image: File | null;
+  imageScale: number;
+}
+
+interface WatermarkOptionsProps {
+  value: WatermarkOptionsValue;
+  onChange: (value: WatermarkOptionsValue) => void;
+  disabled?: boolean;
+}
+
+export const DEFAULT_WATERMARK_OPTIONS: WatermarkOptionsValue = {
+  type: 'text',
+  text: 'CONFIDENTIAL',
+  font: 'helvetica-bold',
+  fontSize: 48,
+  color: '#808080',
+  opacity: 0.3,
+  rotation: 45,
+  placement: 'center',
+  layer: 'over',
+  pages: '',
+  image: null,
+  imageScale: 0.5,
+};
+
+export const FONT_OPTIONS = [
+  { value: 'helvetica', label: 'Helvetica' },
+  { value: 'helvetica-bold', label: 'Helvetica Bold' },
+  { value: 'times', label: 'Times' },
+  { value: 'times-bold', label: 'Times Bold' },
+  { value: 'courier', label: 'Courier' },
+  { value: 'courier-bold', label: 'Courier Bold' },
+];
+
+export function WatermarkOptions({ value, onChange, disabled = false }: WatermarkOptionsProps) {
+  const update = <K extends keyof WatermarkOptionsValue>(key: K, fieldValue: WatermarkOptionsValue[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Watermark Type</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {(['text', 'image'] as const).map((type) => (
+            <Button
+              key={type}
+              variant={value.type === type ? 'default' : 'outline'}
+              onClick={() => update('type', type)}
+              disabled={disabled}
+            >
+              {type === 'text' ? 'Text' : 'Image'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {value.type === 'text' ? (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Text</Label>
+            <Input
+              value={value.text}
+              onChange={(e) => update('text', e.target.value)}
+              placeholder="CONFIDENTIAL — Client name"
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Font</Label>
+            <Select value={value.font} onValueChange={(font) => update('font', font)} disabled={disabled}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FONT_OPTIONS.map((font) => (
+                  <SelectItem key={font.value} value={font.value}>
+                    {font.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Size</Label>
+              <Input
+                type="number"
+                min={4}
+                value={value.fontSize}
+                onChange={(e) => update('fontSize', parseInt(e.target.value))}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Colour</Label>
+              <Input
+                type="color"
+                value={value.color}
+                onChange={(e) => update('color', e.target.value)}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Image (PNG or JPEG)</Label>
+            <Input
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={(e) => update('image', e.target.files?.[0] || null)}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Width (% of page)</Label>
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={Math.round(value.imageScale * 100)}
+              onChange={(e) => update('imageScale', parseInt(e.target.value) / 100)}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Opacity (%)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={Math.round(value.opacity * 100)}
+            onChange={(e) => update('opacity', parseInt(e.target.value) / 100)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Rotation (degrees)</Label>
+          <Input
+            type="number"
+            min={-360}
+            max={360}
+            value={value.rotation}
+            onChange={(e) => update('rotation', parseInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Pages</Label>
+          <Input
+            value={value.pages}
+            onChange={(e) => update('pages', e.target.value)}
+            placeholder="All pages, or e.g. 1-3, 7"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Placement</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['center', 'tile'] as const).map((placement) => (
+              <Button
+                key={placement}
+                variant={value.placement === placement ? 'default' : 'outline'}
+                onClick={() => update('placement', placement)}
+                disabled={disabled}
+              >
+                {placement === 'center' ? 'Centered' : 'Tiled'}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Layer</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['over', 'behind'] as const).map((layer) => (
+              <Button
+                key={layer}
+                variant={value.layer === layer ? 'default' : 'outline'}
+                onClick={() => update('layer', layer)}
+                disabled={disabled}
+              >
+                {layer === 'over' ? 'Over Content' : 'Behind Content'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+      {value.layer === 'behind' && (
+        <p className="text-sm text-muted-foreground">
+          Watermarks behind content are hidden on scanned pages with an opaque background.
+        </p>
+      )}
+    </div>
+  );
+}
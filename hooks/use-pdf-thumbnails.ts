@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+export interface PDFThumbnail {
+  pageNumber: number;
+  url: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Renders a small preview of every page of a PDF in the browser with pdf.js.
+ * Thumbnails reflect the rotation already stored in the document.
+ */
+export function usePDFThumbnails(file: File | null | undefined, thumbnailWidth = 150) {
+  const [thumbnails, setThumbnails] = useState<PDFThumbnail[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setThumbnails([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const renderThumbnails = async () => {
+      setIsLoading(true);
+      setError(null);
+      setThumbnails([]);
+
+      try {
+        // Loaded lazily so the worker setup only runs in the browser
+        const { pdfjs } = await import('@/lib/pdf-worker');
+        const data = new Uint8Array(await file.arrayBuffer());
+        const pdf = await pdfjs.getDocument({ data }).promise;
+        const rendered: PDFThumbnail[] = [];
+
+        for (let i = 1; i <= pdf.numPages; i++) {
+          if (cancelled) break;
+
+          const page = await pdf.getPage(i);
+          const baseViewport = page.getViewport({ scale: 1.0 });
+          const viewport = page.getViewport({ scale: thumbnailWidth / baseViewport.width });
+          const canvas = document.createElement('canvas');
+          const context = canvas.getContext('2d');
+          if (!context) {
+            throw new Error('Failed to get canvas context');
+          }
+
+          canvas.width = viewport.width;
+          canvas.height = viewport.height;
+          await page.render({ canvasContext: context, viewport }).promise;
+
+          rendered.push({
+            pageNumber: i,
+            url: canvas.toDataURL('image/png'),
+            width: viewport.width,
+            height: viewport.height,
+          });
+
+          if (!cancelled) {
+            setThumbnails([...rendered]);
+          }
+        }
+
+        await pdf.destroy();
+      } catch (err) {
+        console.error('Error rendering PDF thumbnails:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to render page previews');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    renderThumbnails();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, thumbnailWidth]);
+
+  return { thumbnails, isLoading, error };
+}
@@ -0,0 +1,74 @@
+import { DocumentChunk, formatPageRange } from './rag/types';
+
+export interface ChatReportMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // ISO 8601 time the message was sent or received
+  timestamp: string;
+  // Name of the document the answer was drawn from
+  source?: string;
+  context?: DocumentChunk[];
+}
+
+export interface ChatReport {
+  title: string;
+  messages: ChatReportMessage[];
+  exportedAt: string;
+}
+
+// Reports are attached as evidence, so times are unambiguous UTC rather than the server's locale
+export const formatReportTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime())
+    ? timestamp
+    : `${date.toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+};
+
+// Questions and excerpts are quoted as written, not interpreted as Markdown
+const escapeMarkdown = (text: string) =>
+  text
+    .replace(/[\\`*_[\]<>#|~!]/g, '\\$&')
+    .replace(/^(\s*)([-+]|\d+\.)(\s)/gm, '$1\\$2$3');
+
+/**
+ * The conversation as a Markdown transcript. Each answer is followed by the
+ * excerpts it was based on, numbered and attributed to their document.
+ */
+export function buildChatReportMarkdown({ title, messages, exportedAt }: ChatReport): string {
+  const sources = Array.from(new Set(messages.flatMap((message) => [
+    ...(message.source ? [message.source] : []),
+    ...(message.context || []).map((chunk) => chunk.metadata.source),
+  ])));
+  const questions = messages.filter((message) => message.role === 'user').length;
+
+  const lines = [
+    `# ${escapeMarkdown(title)}`,
+    '',
+    `- **Exported:** ${formatReportTime(exportedAt)}`,
+    `- **Documents:** ${sources.length > 0 ? sources.map(escapeMarkdown).join(', ') : 'None'}`,
+    `- **Questions:** ${questions}`,
+    '',
+    '---',
+    '',
+  ];
+
+  for (const message of messages) {
+    const time = formatReportTime(message.timestamp);
+    if (message.role === 'user') {
+      lines.push(`## Question — ${time}`, '', escapeMarkdown(message.content), '');
+      continue;
+    }
+
+    // Answers are usually Markdown already, so they are kept as they are
+    lines.push(`### Answer — ${time}`, '', message.content, '');
+    if (message.context && message.context.length > 0) {
+      lines.push('#### Sources', '');
+      message.context.forEach(({ text, metadata }, i) => {
+        const citation = `${escapeMarkdown(metadata.source)}, ${formatPageRange(metadata)}`;
+        lines.push(`> **[${i + 1}] ${citation}:** ${escapeMarkdown(text.replace(/\s+/g, ' ').trim())}`, '');
+      });
+    }
+  }
+
+  return lines.join('\n');
+}
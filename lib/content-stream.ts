@@ -0,0 +1,251 @@
+import { deflateSync } from 'zlib';
+import {
+  PDFArray,
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  decodePDFRawStream,
+} from 'pdf-lib';
+
+export interface ContentOperation {
+  operator: string;
+  operands: string[];
+  // Offsets into the content string, from the first operand to the end of the operator
+  start: number;
+  end: number;
+}
+
+const isWhitespace = (char: string) => char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0';
+
+const isDelimiter = (char: string) => '()<>[]{}/%'.includes(char);
+
+const isOperand = (word: string) =>
+  /^[+-]?(\d+\.?\d*|\.\d+)$/.test(word) || word === 'true' || word === 'false' || word === 'null';
+
+function skipWord(content: string, i: number) {
+  while (i < content.length && !isWhitespace(content[i]) && !isDelimiter(content[i])) i++;
+  return i;
+}
+
+function skipString(content: string, i: number) {
+  let depth = 0;
+  for (; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return content.length;
+}
+
+// Returns the offset just past the object starting at i
+function skipObject(content: string, i: number): number {
+  const char = content[i];
+  if (char === '(') {
+    return skipString(content, i);
+  }
+  if (char === '<' && content[i + 1] === '<') {
+    return skipContainer(content, i + 2, '>>');
+  }
+  if (char === '<') {
+    const end = content.indexOf('>', i);
+    return end === -1 ? content.length : end + 1;
+  }
+  if (char === '[') {
+    return skipContainer(content, i + 1, ']');
+  }
+  if (char === '/') {
+    return skipWord(content, i + 1);
+  }
+  return Math.max(skipWord(content, i), i + 1);
+}
+
+function skipContainer(content: string, i: number, close: string) {
+  while (i < content.length) {
+    if (isWhitespace(content[i])) {
+      i++;
+    } else if (content.startsWith(close, i)) {
+      return i + close.length;
+    } else {
+      i = skipObject(content, i);
+    }
+  }
+  return content.length;
+}
+
+// Inline image data is binary and ends at the first "EI" surrounded by whitespace
+function skipInlineImage(content: string, i: number) {
+  const data = content.slice(i).search(/\sID\s/);
+  if (data === -1) return content.length;
+
+  let end = i + data + 4;
+  for (;;) {
+    end = content.indexOf('EI', end);
+    if (end === -1) return content.length;
+    const before = content[end - 1];
+    const after = content[end + 2];
+    if (isWhitespace(before) && (after === undefined || isWhitespace(after))) {
+      return end + 2;
+    }
+    end += 2;
+  }
+}
+
+/**
+ * Splits a decoded content stream into operators and their operands without
+ * interpreting them. Offsets let callers cut operations out of the original
+ * text while leaving everything else byte-for-byte intact.
+ */
+export function parseContentStream(content: string): ContentOperation[] {
+  const operations: ContentOperation[] = [];
+  let operands: string[] = [];
+  let operandsStart = -1;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    if (isWhitespace(char)) {
+      i++;
+      continue;
+    }
+    if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+      continue;
+    }
+
+    const start = i;
+    const isWord = !isDelimiter(char);
+    i = skipObject(content, i);
+    const token = content.slice(start, i);
+
+    if (isWord && !isOperand(token)) {
+      const operationStart = operandsStart === -1 ? start : operandsStart;
+      if (token === 'BI') {
+        i = skipInlineImage(content, i);
+      }
+      operations.push({ operator: token, operands, start: operationStart, end: i });
+      operands = [];
+      operandsStart = -1;
+    } else {
+      if (operandsStart === -1) operandsStart = start;
+      operands.push(token);
+    }
+  }
+
+  return operations;
+}
+
+// Splits an array operand such as "[(Hel) -20 (lo)]" into its element tokens
+export function parseArrayOperand(token: string): string[] {
+  const elements: string[] = [];
+  const end = token.endsWith(']') ? token.length - 1 : token.length;
+  let i = token.startsWith('[') ? 1 : 0;
+
+  while (i < end) {
+    if (isWhitespace(token[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    i = Math.min(skipObject(token, i), end);
+    elements.push(token.slice(start, i));
+  }
+
+  return elements;
+}
+
+const ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+// Decodes a literal "(...)" or hex "<...>" string operand to the bytes it encodes
+export function decodeStringOperand(token: string): number[] {
+  if (token.startsWith('<')) {
+    const hex = token.slice(1, -1).replace(/[^0-9a-fA-F]/g, '');
+    const padded = hex.length % 2 ? `${hex}0` : hex;
+    return Array.from(Buffer.from(padded, 'hex'));
+  }
+
+  const bytes: number[] = [];
+  const body = token.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== '\\') {
+      // A bare end-of-line inside a string always reads as a single newline
+      if (char === '\r') {
+        if (body[i + 1] === '\n') i++;
+        bytes.push(10);
+      } else {
+        bytes.push(body.charCodeAt(i) & 0xff);
+      }
+      continue;
+    }
+
+    const next = body[++i];
+    if (next === undefined) break;
+    if (next in ESCAPES) {
+      bytes.push(ESCAPES[next]);
+    } else if (next >= '0' && next <= '7') {
+      const octal = body.slice(i, i + 3).match(/^[0-7]{1,3}/)![0];
+      bytes.push(parseInt(octal, 8) & 0xff);
+      i += octal.length - 1;
+    } else if (next === '\r') {
+      if (body[i + 1] === '\n') i++;
+    } else if (next !== '\n') {
+      bytes.push(next.charCodeAt(0) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Decodes a content stream, or an array of them, into a latin1 string.
+ * Returns null when any part uses a filter pdf-lib cannot decode.
+ */
+export function readContentStream(doc: PDFDocument, contents: PDFObject | undefined): string | null {
+  const object = contents instanceof PDFRef ? doc.context.lookup(contents) : contents;
+
+  if (object === undefined) {
+    return '';
+  }
+
+  if (object instanceof PDFArray) {
+    const parts = object.asArray().map((item) => readContentStream(doc, item));
+    return parts.some((part) => part === null) ? null : parts.join('\n');
+  }
+
+  if (!(object instanceof PDFRawStream)) {
+    return null;
+  }
+
+  try {
+    return Buffer.from(decodePDFRawStream(object).decode()).toString('latin1');
+  } catch {
+    return null;
+  }
+}
+
+export function setPageContent(doc: PDFDocument, page: PDFPage, content: string) {
+  const stream = doc.context.flateStream(Buffer.from(content, 'latin1'));
+  page.node.set(PDFName.of('Contents'), doc.context.register(stream));
+}
+
+// Copies a form XObject with new content, keeping its dictionary (BBox, Resources, ...)
+export function copyFormWithContent(doc: PDFDocument, form: PDFRawStream, content: string) {
+  const dict = form.dict.clone(doc.context);
+  dict.delete(PDFName.of('DecodeParms'));
+  dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+  return PDFRawStream.of(dict, deflateSync(Buffer.from(content, 'latin1')));
+}
+
+export function setFormContent(doc: PDFDocument, ref: PDFRef, content: string) {
+  const form = doc.context.lookup(ref);
+  if (!(form instanceof PDFRawStream)) return;
+
+  doc.context.assign(ref, copyFormWithContent(doc, form, content));
+}
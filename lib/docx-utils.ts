@@ -0,0 +1,229 @@
+import {
+  Document,
+  ImageRun,
+  Packer,
+  Paragraph,
+  TextRun,
+  type ISectionOptions,
+} from 'docx';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { renderPageToCanvas } from './canvas-utils';
+import { PositionedTextItem, getPositionedTextItems } from './text-items';
+
+interface FontStyle {
+  bold: boolean;
+  italic: boolean;
+}
+
+interface StyledRun {
+  text: string;
+  size: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface TextLine {
+  y: number;
+  size: number;
+  runs: StyledRun[];
+}
+
+// 1 PDF point = 20 twips; Word page margins default to half an inch here
+const TWIPS_PER_POINT = 20;
+const PAGE_MARGIN = 36;
+const DEFAULT_FONT_SIZE = 11;
+
+// Pixels per point for images embedded by docx (96 DPI vs 72 DPI)
+const PIXELS_PER_POINT = 96 / 72;
+
+async function resolveFontStyles(page: PDFPageProxy, fontNames: string[]) {
+  const styles = new Map<string, FontStyle>();
+
+  try {
+    // Fonts only land in commonObjs once the operator list has been built
+    await page.getOperatorList();
+  } catch (error) {
+    console.error('Error loading page fonts:', error);
+  }
+
+  for (const fontName of fontNames) {
+    let style: FontStyle = { bold: false, italic: false };
+    try {
+      const font = page.commonObjs.get(fontName) as {
+        name?: string;
+        bold?: boolean;
+        black?: boolean;
+        italic?: boolean;
+      } | null;
+      const name = font?.name || '';
+      style = {
+        bold: !!font?.bold || !!font?.black || /bold|black|heavy|semibold/i.test(name),
+        italic: !!font?.italic || /italic|oblique/i.test(name),
+      };
+    } catch {
+      // Font was not resolved; fall back to a regular style
+    }
+    styles.set(fontName, style);
+  }
+
+  return styles;
+}
+
+function getFontSize(item: PositionedTextItem) {
+  const size = item.height || Math.hypot(item.transform[2], item.transform[3]);
+  return size > 0 ? Math.round(size * 2) / 2 : DEFAULT_FONT_SIZE;
+}
+
+function groupIntoLines(items: PositionedTextItem[], styles: Map<string, FontStyle>) {
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+
+  for (const item of items) {
+    const y = item.transform[5];
+    const size = getFontSize(item);
+    const style = styles.get(item.fontName) || { bold: false, italic: false };
+
+    if (!current || Math.abs(y - current.y) > Math.max(current.size, size) / 2) {
+      current = { y, size, runs: [] };
+      lines.push(current);
+    }
+
+    current.size = Math.max(current.size, size);
+    const lastRun = current.runs[current.runs.length - 1];
+    if (
+      lastRun &&
+      lastRun.size === size &&
+      lastRun.bold === style.bold &&
+      lastRun.italic === style.italic
+    ) {
+      lastRun.text += item.str;
+    } else {
+      const separator = lastRun && !/\s$/.test(lastRun.text) && !/^\s/.test(item.str) ? ' ' : '';
+      if (lastRun && separator) lastRun.text += separator;
+      current.runs.push({ text: item.str, size, ...style });
+    }
+  }
+
+  return lines.filter(line => line.runs.some(run => run.text.trim()));
+}
+
+function groupIntoParagraphs(lines: TextLine[]) {
+  const paragraphs: TextLine[][] = [];
+  let current: TextLine[] = [];
+
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (previous) {
+      const gap = Math.abs(previous.y - line.y);
+      const sizeChanged = Math.abs(previous.size - line.size) > 1;
+      // A gap noticeably larger than the line height starts a new paragraph
+      if (sizeChanged || gap > Math.max(previous.size, line.size) * 1.6) {
+        paragraphs.push(current);
+        current = [];
+      }
+    }
+    current.push(line);
+  });
+
+  if (current.length > 0) {
+    paragraphs.push(current);
+  }
+
+  return paragraphs;
+}
+
+function toParagraph(lines: TextLine[]) {
+  const children: TextRun[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    line.runs.forEach((run, runIndex) => {
+      const isLineEnd = runIndex === line.runs.length - 1 && lineIndex < lines.length - 1;
+      const text = isLineEnd ? `${run.text.trimEnd()} ` : run.text;
+      children.push(new TextRun({
+        text,
+        bold: run.bold,
+        italics: run.italic,
+        size: Math.round(run.size * 2),
+      }));
+    });
+  });
+
+  return new Paragraph({
+    children,
+    spacing: { after: Math.round(lines[0].size * 0.5 * TWIPS_PER_POINT) },
+  });
+}
+
+async function renderPageImage(page: PDFPageProxy, maxWidth: number, maxHeight: number) {
+  const canvas = await renderPageToCanvas({ page, scale: 2.0 });
+  const { width, height } = page.getViewport({ scale: 1.0 });
+  const ratio = Math.min(maxWidth / width, maxHeight / height, 1);
+
+  return new Paragraph({
+    children: [
+      new ImageRun({
+        type: 'png',
+        data: canvas.toBuffer('image/png'),
+        transformation: {
+          width: Math.round(width * ratio * PIXELS_PER_POINT),
+          height: Math.round(height * ratio * PIXELS_PER_POINT),
+        },
+      }),
+    ],
+  });
+}
+
+async function convertPage(page: PDFPageProxy): Promise<ISectionOptions> {
+  const { width, height } = page.getViewport({ scale: 1.0 });
+  const items = await getPositionedTextItems(page);
+
+  const fontNames = Array.from(new Set(items.map(item => item.fontName)));
+  const styles = await resolveFontStyles(page, fontNames);
+  const lines = groupIntoLines(items, styles);
+
+  // Pages without extractable text (scans, drawings) are embedded as images
+  const children = lines.length > 0
+    ? groupIntoParagraphs(lines).map(toParagraph)
+    : [await renderPageImage(page, width - PAGE_MARGIN * 2, height - PAGE_MARGIN * 2)];
+
+  const margin = PAGE_MARGIN * TWIPS_PER_POINT;
+  return {
+    properties: {
+      page: {
+        size: {
+          width: Math.round(width * TWIPS_PER_POINT),
+          height: Math.round(height * TWIPS_PER_POINT),
+        },
+        margin: { top: margin, right: margin, bottom: margin, left: margin },
+      },
+    },
+    children,
+  };
+}
+
+export async function convertPdfToDocx(pdfDoc: PDFDocumentProxy): Promise<Buffer> {
+  try {
+    // One section per PDF page so Word starts each one on a new page
+    const sections: ISectionOptions[] = [];
+    for (let i = 1; i <= pdfDoc.numPages; i++) {
+      const page = await pdfDoc.getPage(i);
+      sections.push(await convertPage(page));
+    }
+
+    const document = new Document({
+      styles: {
+        default: {
+          document: {
+            run: { font: 'Calibri', size: DEFAULT_FONT_SIZE * 2 },
+          },
+        },
+      },
+      sections,
+    });
+
+    return await Packer.toBuffer(document);
+  } catch (error) {
+    console.error('Error building DOCX document:', error);
+    throw new Error('Failed to build DOCX document');
+  }
+}
@@ -0,0 +1,109 @@
+import { PDFDocument } from 'pdf-lib';
+import { PAPER_SIZES, PaperSize } from './page-size';
+
+export interface ImagePageOptions {
+  // 'image' sizes each page to the picture at its own resolution
+  pageSize: 'image' | PaperSize;
+  orientation: 'auto' | 'portrait' | 'landscape';
+  // Space around the image in points
+  margin: number;
+  // 'fit' shows the whole image; 'fill' covers the page and crops the overflow
+  fit: 'fit' | 'fill';
+}
+
+export const DEFAULT_IMAGE_PAGE_OPTIONS: ImagePageOptions = {
+  pageSize: 'a4',
+  orientation: 'auto',
+  margin: 0,
+  fit: 'fit',
+};
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/tiff'];
+
+// Images without a resolution are treated as screen images
+const DEFAULT_IMAGE_DPI = 72;
+
+export const isImageFile = (file: File) =>
+  IMAGE_MIME_TYPES.includes(file.type) || /\.(jpe?g|png|webp|tiff?)$/i.test(file.name);
+
+/**
+ * Number of pages in an image: multi-page TIFFs have several, everything
+ * else has one. Throws when sharp cannot read the file.
+ */
+export async function getImagePageCount(bytes: ArrayBuffer): Promise<number> {
+  const sharp = (await import('sharp')).default;
+  const metadata = await sharp(Buffer.from(bytes)).metadata();
+  return metadata.pages || 1;
+}
+
+/**
+ * Adds the given 1-based pages of an image to the document, one PDF page
+ * each. Photos are turned upright using their EXIF orientation. JPEGs stay
+ * JPEG so photos do not balloon in size; other formats become lossless PNG.
+ */
+export async function addImagePages(
+  pdfDoc: PDFDocument,
+  bytes: ArrayBuffer,
+  pages: number[],
+  options: ImagePageOptions
+) {
+  const sharp = (await import('sharp')).default;
+  const input = Buffer.from(bytes);
+
+  for (const pageNumber of pages) {
+    const image = sharp(input, { page: pageNumber - 1 }).rotate();
+    const metadata = await image.metadata();
+    // rotate() applies the EXIF orientation, which swaps the sides for 5-8
+    const sideways = (metadata.orientation || 1) >= 5;
+    const imageWidth = sideways ? metadata.height! : metadata.width!;
+    const imageHeight = sideways ? metadata.width! : metadata.height!;
+    const dpi = metadata.density || DEFAULT_IMAGE_DPI;
+
+    // Page size in points
+    let [pageWidth, pageHeight] = options.pageSize === 'image'
+      ? [(imageWidth / dpi) * 72 + 2 * options.margin, (imageHeight / dpi) * 72 + 2 * options.margin]
+      : PAPER_SIZES[options.pageSize];
+    const landscape = options.orientation === 'auto'
+      ? imageWidth > imageHeight
+      : options.orientation === 'landscape';
+    if (landscape !== pageWidth > pageHeight) {
+      [pageWidth, pageHeight] = [pageHeight, pageWidth];
+    }
+
+    const boxWidth = Math.max(1, pageWidth - 2 * options.margin);
+    const boxHeight = Math.max(1, pageHeight - 2 * options.margin);
+
+    // Filling crops the image to the box's proportions, centred
+    let pipeline = image;
+    let [drawnWidth, drawnHeight] = [imageWidth, imageHeight];
+    if (options.fit === 'fill') {
+      const boxRatio = boxWidth / boxHeight;
+      const cropWidth = Math.min(imageWidth, Math.round(imageHeight * boxRatio));
+      const cropHeight = Math.min(imageHeight, Math.round(imageWidth / boxRatio));
+      pipeline = sharp(await image.toBuffer()).extract({
+        left: Math.floor((imageWidth - cropWidth) / 2),
+        top: Math.floor((imageHeight - cropHeight) / 2),
+        width: Math.max(1, cropWidth),
+        height: Math.max(1, cropHeight),
+      });
+      [drawnWidth, drawnHeight] = [Math.max(1, cropWidth), Math.max(1, cropHeight)];
+    }
+
+    // An upright, uncropped JPEG is embedded as it is, without re-encoding
+    const unchanged = (metadata.orientation || 1) === 1 && options.fit === 'fit';
+    const embedded = metadata.format === 'jpeg'
+      ? await pdfDoc.embedJpg(unchanged ? input : await pipeline.jpeg({ quality: 92 }).toBuffer())
+      : await pdfDoc.embedPng(await pipeline.png().toBuffer());
+
+    const scale = Math.min(boxWidth / drawnWidth, boxHeight / drawnHeight);
+    const width = drawnWidth * scale;
+    const height = drawnHeight * scale;
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+    page.drawImage(embedded, {
+      x: (pageWidth - width) / 2,
+      y: (pageHeight - height) / 2,
+      width,
+      height,
+    });
+  }
+}
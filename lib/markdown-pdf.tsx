@@ -0,0 +1,324 @@
+import { ReactNode } from 'react';
+import { Document, Image, Link, Page, StyleSheet, Text, View, renderToBuffer } from '@react-pdf/renderer';
+import { marked, type Token, type Tokens } from 'marked';
+
+export type PdfTemplate = 'clean' | 'classic' | 'compact';
+
+export interface CreatePdfOptions {
+  format: 'markdown' | 'text';
+  template: PdfTemplate;
+  pageSize: 'A4' | 'LETTER';
+  orientation: 'portrait' | 'landscape';
+  // Page margin in points
+  margin: number;
+  pageNumbers: boolean;
+  title: string;
+}
+
+// A picture the document can show: uploaded alongside it or inlined as a data URI
+export type PdfImageSource = { data: Buffer; format: 'png' | 'jpg' };
+
+interface TemplateStyle {
+  label: string;
+  fontFamily: string;
+  headingFontFamily: string;
+  fontSize: number;
+  lineHeight: number;
+  accentColor: string;
+}
+
+// Only the PDF standard fonts are used, so rendering never fetches fonts
+export const PDF_TEMPLATES: Record<PdfTemplate, TemplateStyle> = {
+  clean: {
+    label: 'Clean',
+    fontFamily: 'Helvetica',
+    headingFontFamily: 'Helvetica',
+    fontSize: 11,
+    lineHeight: 1.5,
+    accentColor: '#2563eb',
+  },
+  classic: {
+    label: 'Classic',
+    fontFamily: 'Times-Roman',
+    headingFontFamily: 'Times-Roman',
+    fontSize: 12,
+    lineHeight: 1.4,
+    accentColor: '#111827',
+  },
+  compact: {
+    label: 'Compact',
+    fontFamily: 'Helvetica',
+    headingFontFamily: 'Helvetica',
+    fontSize: 9.5,
+    lineHeight: 1.3,
+    accentColor: '#0f766e',
+  },
+};
+
+const HEADING_SCALE = [2, 1.6, 1.3, 1.15, 1, 0.9];
+
+const createStyles = ({ fontFamily, headingFontFamily, fontSize, lineHeight, accentColor }: TemplateStyle) =>
+  StyleSheet.create({
+    page: { fontFamily, fontSize, lineHeight, color: '#111827' },
+    block: { marginBottom: fontSize * 0.75 },
+    heading: { fontFamily: headingFontFamily, fontWeight: 'bold', marginTop: fontSize * 0.5, marginBottom: fontSize * 0.5 },
+    strong: { fontWeight: 'bold' },
+    em: { fontStyle: 'italic' },
+    del: { textDecoration: 'line-through' },
+    link: { color: accentColor, textDecoration: 'underline' },
+    codespan: { fontFamily: 'Courier', backgroundColor: '#f3f4f6' },
+    code: {
+      fontFamily: 'Courier',
+      fontSize: fontSize * 0.85,
+      lineHeight: 1.35,
+      backgroundColor: '#f3f4f6',
+      padding: fontSize * 0.6,
+      marginBottom: fontSize * 0.75,
+    },
+    blockquote: {
+      borderLeftWidth: 3,
+      borderLeftColor: accentColor,
+      paddingLeft: fontSize,
+      color: '#4b5563',
+      marginBottom: fontSize * 0.75,
+    },
+    listItem: { flexDirection: 'row', marginBottom: fontSize * 0.2 },
+    listMarker: { width: fontSize * 1.8 },
+    listBody: { flex: 1 },
+    table: { borderWidth: 1, borderColor: '#d1d5db', marginBottom: fontSize * 0.75 },
+    tableRow: { flexDirection: 'row', borderBottomWidth: 1, borderBottomColor: '#d1d5db' },
+    tableHeader: { backgroundColor: '#f3f4f6', fontWeight: 'bold' },
+    tableCell: { flex: 1, padding: fontSize * 0.4 },
+    image: { maxWidth: '100%', maxHeight: 400, objectFit: 'contain', marginBottom: fontSize * 0.75 },
+    missingImage: { fontStyle: 'italic', color: '#6b7280' },
+    rule: { borderBottomWidth: 1, borderBottomColor: '#d1d5db', marginTop: fontSize * 0.5, marginBottom: fontSize },
+    pageNumber: { position: 'absolute', bottom: 20, left: 0, right: 0, textAlign: 'center', fontSize: 9, color: '#6b7280' },
+  });
+
+type Styles = ReturnType<typeof createStyles>;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// marked keeps entities and inline HTML as written, which would print literally
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // References that are not code points stay as written
+      return code >= 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, ''));
+
+class MarkdownRenderer {
+  private nextKey = 0;
+
+  constructor(private styles: Styles, private images: Map<string, PdfImageSource>) {}
+
+  private key() {
+    return this.nextKey++;
+  }
+
+  inline(tokens: Token[] = []): ReactNode[] {
+    return tokens.map((token) => {
+      switch (token.type) {
+        case 'strong':
+          return <Text key={this.key()} style={this.styles.strong}>{this.inline(token.tokens)}</Text>;
+        case 'em':
+          return <Text key={this.key()} style={this.styles.em}>{this.inline(token.tokens)}</Text>;
+        case 'del':
+          return <Text key={this.key()} style={this.styles.del}>{this.inline(token.tokens)}</Text>;
+        case 'codespan':
+          return <Text key={this.key()} style={this.styles.codespan}>{decodeEntities(token.text)}</Text>;
+        case 'link':
+          return (
+            <Link key={this.key()} src={token.href} style={this.styles.link}>
+              {this.inline(token.tokens)}
+            </Link>
+          );
+        case 'br':
+          return '\n';
+        case 'html':
+          return stripTags(token.text);
+        case 'image':
+          // Only reached inside links and table cells, where a picture cannot be laid out
+          return `[${token.text || 'image'}]`;
+        case 'text':
+          return 'tokens' in token && token.tokens ? this.inline(token.tokens) : decodeEntities(token.text);
+        default:
+          return 'text' in token ? decodeEntities(String(token.text)) : '';
+      }
+    });
+  }
+
+  // Paragraphs holding images are split so each picture gets its own block
+  private paragraph(tokens: Token[] = []): ReactNode {
+    if (!tokens.some((token) => token.type === 'image')) {
+      return <Text key={this.key()} style={this.styles.block}>{this.inline(tokens)}</Text>;
+    }
+
+    const parts: ReactNode[] = [];
+    let run: Token[] = [];
+    const flush = () => {
+      if (run.some((token) => token.type !== 'text' || token.text.trim())) {
+        parts.push(<Text key={this.key()} style={this.styles.block}>{this.inline(run)}</Text>);
+      }
+      run = [];
+    };
+
+    for (const token of tokens) {
+      if (token.type !== 'image') {
+        run.push(token);
+        continue;
+      }
+      flush();
+      const image = this.images.get(token.href);
+      parts.push(
+        image ? (
+          <Image key={this.key()} src={image} style={this.styles.image} />
+        ) : (
+          <Text key={this.key()} style={[this.styles.block, this.styles.missingImage]}>
+            [Image not available: {token.text || token.href}]
+          </Text>
+        )
+      );
+    }
+    flush();
+
+    return <View key={this.key()}>{parts}</View>;
+  }
+
+  private list(token: Tokens.List): ReactNode {
+    const start = typeof token.start === 'number' ? token.start : 1;
+    return (
+      <View key={this.key()} style={this.styles.block}>
+        {token.items.map((item, i) => (
+          <View key={this.key()} style={this.styles.listItem} wrap={false}>
+            <Text style={this.styles.listMarker}>
+              {item.task ? (item.checked ? '[x]' : '[ ]') : token.ordered ? `${start + i}.` : '•'}
+            </Text>
+            <View style={this.styles.listBody}>{this.blocks(item.tokens, true)}</View>
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  private table(token: Tokens.Table): ReactNode {
+    const cell = (cell: Tokens.TableCell, i: number) => (
+      <Text key={i} style={[this.styles.tableCell, { textAlign: cell.align || 'left' }]}>
+        {this.inline(cell.tokens)}
+      </Text>
+    );
+    return (
+      <View key={this.key()} style={this.styles.table}>
+        <View style={[this.styles.tableRow, this.styles.tableHeader]} fixed>
+          {token.header.map(cell)}
+        </View>
+        {token.rows.map((row) => (
+          <View key={this.key()} style={this.styles.tableRow} wrap={false}>
+            {row.map(cell)}
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  blocks(tokens: Token[], tight = false): ReactNode[] {
+    return tokens.map((token) => {
+      switch (token.type) {
+        case 'heading': {
+          const scale = HEADING_SCALE[token.depth - 1] ?? 1;
+          return (
+            <Text
+              key={this.key()}
+              style={[this.styles.heading, { fontSize: this.styles.page.fontSize * scale }]}
+              minPresenceAhead={40}
+            >
+              {this.inline(token.tokens)}
+            </Text>
+          );
+        }
+        case 'paragraph':
+          return this.paragraph(token.tokens);
+        case 'text':
+          // Tight list items hold bare text instead of paragraphs
+          return tight ? <Text key={this.key()}>{this.inline(token.tokens)}</Text> : this.paragraph(token.tokens);
+        case 'list':
+          return this.list(token as Tokens.List);
+        case 'table':
+          return this.table(token as Tokens.Table);
+        case 'code':
+          return <Text key={this.key()} style={this.styles.code}>{token.text}</Text>;
+        case 'blockquote':
+          return <View key={this.key()} style={this.styles.blockquote}>{this.blocks(token.tokens || [])}</View>;
+        case 'hr':
+          return <View key={this.key()} style={this.styles.rule} />;
+        case 'html':
+          return stripTags(token.text).trim()
+            ? <Text key={this.key()} style={this.styles.block}>{stripTags(token.text).trim()}</Text>
+            : null;
+        default:
+          return null;
+      }
+    });
+  }
+}
+
+// Plain text keeps its line breaks; blank lines separate paragraphs
+const plainTextBlocks = (text: string, styles: Styles) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph, i) => <Text key={i} style={styles.block}>{paragraph}</Text>);
+
+/**
+ * Every image a Markdown document refers to, so they can be loaded before
+ * rendering; the renderer itself is synchronous.
+ */
+export function getMarkdownImageRefs(markdown: string): string[] {
+  const refs = new Set<string>();
+  marked.walkTokens(marked.lexer(markdown), (token) => {
+    if (token.type === 'image') refs.add(token.href);
+  });
+  return Array.from(refs);
+}
+
+/**
+ * Renders Markdown or plain text to a PDF with the given template and page
+ * settings. Images are looked up in `images` by the address written in the
+ * document; anything missing is shown as a placeholder rather than fetched.
+ */
+export async function renderDocumentPdf(
+  source: string,
+  options: CreatePdfOptions,
+  images: Map<string, PdfImageSource> = new Map()
+): Promise<Buffer> {
+  const styles = createStyles(PDF_TEMPLATES[options.template]);
+  const content = options.format === 'markdown'
+    ? new MarkdownRenderer(styles, images).blocks(marked.lexer(source))
+    : plainTextBlocks(source, styles);
+
+  return renderToBuffer(
+    <Document title={options.title || undefined} creator="PDFGod" producer="PDFGod">
+      <Page
+        size={options.pageSize}
+        orientation={options.orientation}
+        style={[styles.page, { padding: options.margin, paddingBottom: Math.max(options.margin, 48) }]}
+        wrap
+      >
+        {content}
+        {options.pageNumbers && (
+          <Text
+            style={styles.pageNumber}
+            render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`}
+            fixed
+          />
+        )}
+      </Page>
+    </Document>
+  );
+}
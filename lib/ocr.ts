@@ -0,0 +1,207 @@
+import { join } from 'path';
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib';
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import { createWorker, type Worker } from 'tesseract.js';
+import { pdfjs } from './pdf-worker';
+import { renderPageToCanvas } from './canvas-utils';
+import { getPositionedTextItems } from './text-items';
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  // Pixel box in the page image rendered at OCR_DPI
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OcrPageResult {
+  text: string;
+  words: OcrWord[];
+}
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+  // True when the text came from OCR rather than the PDF's own text layer
+  ocr: boolean;
+}
+
+// Tesseract is most accurate on text rendered at around 300 DPI
+const OCR_DPI = 300;
+
+// English models ship with the app so OCR never needs the network
+const OCR_LANG_PATH =
+  process.env.OCR_LANG_PATH || join(process.cwd(), 'node_modules/@tesseract.js-data/eng/4.0.0_best_int');
+
+const IMAGE_OPERATORS = new Set([
+  pdfjs.OPS.paintImageXObject,
+  pdfjs.OPS.paintInlineImageXObject,
+  pdfjs.OPS.paintImageMaskXObject,
+  pdfjs.OPS.paintImageXObjectRepeat,
+  pdfjs.OPS.paintInlineImageXObjectGroup,
+]);
+
+// One worker is kept for the life of the server; loading the model takes longer than most pages
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker() {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', undefined, {
+      langPath: OCR_LANG_PATH,
+      gzip: true,
+      cacheMethod: 'none',
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+async function getPageText(page: PDFPageProxy) {
+  const items = await getPositionedTextItems(page);
+  return items.map((item) => item.str).join(' ');
+}
+
+/**
+ * A page needs OCR when it has no extractable text but paints at least one
+ * image, which is what scanners and "print to image" produce. Blank pages
+ * are skipped.
+ */
+export async function isImageOnlyPage(page: PDFPageProxy): Promise<boolean> {
+  if ((await getPageText(page)).trim()) {
+    return false;
+  }
+  const operatorList = await page.getOperatorList();
+  return operatorList.fnArray.some((operator) => IMAGE_OPERATORS.has(operator));
+}
+
+export async function recognizePage(page: PDFPageProxy): Promise<OcrPageResult> {
+  const canvas = await renderPageToCanvas({ page, scale: OCR_DPI / 72 });
+  const worker = await getWorker();
+  const { data } = await worker.recognize(canvas.toBuffer('image/png'));
+
+  return {
+    text: data.text.trim(),
+    words: data.words
+      .filter((word) => word.text.trim())
+      .map((word) => ({ text: word.text.trim(), confidence: word.confidence, bbox: word.bbox })),
+  };
+}
+
+/**
+ * Extracts the text of every page, running OCR on image-only pages when
+ * `ocr` is set. Pages with a text layer are never OCRed.
+ */
+export async function extractPageTexts(
+  pdfDoc: PDFDocumentProxy,
+  { ocr = true, pages }: { ocr?: boolean; pages?: number[] } = {}
+): Promise<PageText[]> {
+  const pageNumbers = pages || Array.from({ length: pdfDoc.numPages }, (_, i) => i + 1);
+  const results: PageText[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    const page = await pdfDoc.getPage(pageNumber);
+    if (ocr && (await isImageOnlyPage(page))) {
+      const { text } = await recognizePage(page);
+      results.push({ pageNumber, text, ocr: true });
+    } else {
+      results.push({ pageNumber, text: await getPageText(page), ocr: false });
+    }
+  }
+
+  return results;
+}
+
+// Replaces characters the standard font cannot encode so a single odd glyph does not drop the word
+const encodableText = (characters: Set<number>, text: string) =>
+  Array.from(text)
+    .map((char) => (characters.has(char.codePointAt(0)!) ? char : '?'))
+    .join('');
+
+/**
+ * Adds recognised words to a page as invisible text, each stretched over the
+ * box it occupies in the image, so the scan can be searched, selected and copied.
+ */
+function addTextLayer(page: PDFPage, font: PDFFont, viewport: PageViewport, words: OcrWord[]) {
+  const doc = page.doc;
+  const fontKey = page.node.newFontDictionary(font.name, font.ref);
+  const characters = new Set(font.getCharacterSet());
+
+  // Keep the scan's own graphics state from leaking into the text layer
+  const start = doc.context.register(doc.context.contentStream([pushGraphicsState()]));
+  const end = doc.context.register(doc.context.contentStream([popGraphicsState()]));
+  page.node.wrapContentStreams(start, end);
+
+  const operators = [pushGraphicsState(), beginText(), setTextRenderingMode(TextRenderingMode.Invisible)];
+  for (const word of words) {
+    const { x0, y0, x1, y1 } = word.bbox;
+    // Bottom-left, bottom-right and top-left of the word in PDF user space;
+    // going through the viewport also handles rotated pages
+    const [ox, oy] = viewport.convertToPdfPoint(x0, y1);
+    const [rx, ry] = viewport.convertToPdfPoint(x1, y1);
+    const [ux, uy] = viewport.convertToPdfPoint(x0, y0);
+    const width = Math.hypot(rx - ox, ry - oy);
+    const height = Math.hypot(ux - ox, uy - oy);
+    if (width === 0 || height === 0) continue;
+
+    const text = encodableText(characters, word.text);
+    const textWidth = font.widthOfTextAtSize(text, 1);
+    if (textWidth === 0) continue;
+
+    // Unit vectors along the word and up from it, scaled so the text fills the box
+    const stretch = width / (textWidth * height);
+    operators.push(
+      setFontAndSize(fontKey, height),
+      setTextMatrix(
+        ((rx - ox) / width) * stretch,
+        ((ry - oy) / width) * stretch,
+        (ux - ox) / height,
+        (uy - oy) / height,
+        ox,
+        oy
+      ),
+      showText(font.encodeText(text))
+    );
+  }
+  operators.push(endText(), popGraphicsState());
+  page.pushOperators(...operators);
+}
+
+/**
+ * Runs OCR on every image-only page and adds the recognised text as an
+ * invisible layer over the scan. Pages that already have text are left as
+ * they are. Returns the numbers of the pages that were recognised.
+ */
+export async function makeSearchablePdf(pdfDoc: PDFDocument, pdfjsDoc: PDFDocumentProxy) {
+  const pages = pdfDoc.getPages();
+  let font: PDFFont | null = null;
+  const recognisedPages: number[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdfjsDoc.numPages; pageNumber++) {
+    const page = await pdfjsDoc.getPage(pageNumber);
+    if (!(await isImageOnlyPage(page))) continue;
+
+    const { words } = await recognizePage(page);
+    if (words.length === 0) continue;
+
+    font = font || (await pdfDoc.embedFont(StandardFonts.Helvetica));
+    addTextLayer(pages[pageNumber - 1], font, page.getViewport({ scale: OCR_DPI / 72 }), words);
+    recognisedPages.push(pageNumber);
+  }
+
+  return { bytes: await pdfDoc.save(), recognisedPages };
+}
@@ -0,0 +1,123 @@
+import { PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef } from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+export interface OutlineEntry {
+  title: string;
+  pageNumber: number | null;
+  children: OutlineEntry[];
+}
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+async function resolvePageNumber(pdfDoc: PDFDocumentProxy, dest: OutlineNode['dest']) {
+  try {
+    const explicitDest = typeof dest === 'string' ? await pdfDoc.getDestination(dest) : dest;
+    if (!Array.isArray(explicitDest) || explicitDest.length === 0) return null;
+
+    const [target] = explicitDest;
+    // Destinations point either at a page reference or directly at a page index
+    const pageIndex = typeof target === 'number' ? target : await pdfDoc.getPageIndex(target);
+    return pageIndex + 1;
+  } catch (error) {
+    console.error('Error resolving outline destination:', error);
+    return null;
+  }
+}
+
+async function convertNodes(pdfDoc: PDFDocumentProxy, nodes: OutlineNode[]): Promise<OutlineEntry[]> {
+  const entries: OutlineEntry[] = [];
+  for (const node of nodes) {
+    entries.push({
+      title: node.title,
+      pageNumber: await resolvePageNumber(pdfDoc, node.dest),
+      children: await convertNodes(pdfDoc, node.items || []),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Reads the document outline (bookmarks) with pdf.js and resolves each
+ * destination to a 1-based page number.
+ */
+export async function readOutline(pdfDoc: PDFDocumentProxy): Promise<OutlineEntry[]> {
+  const outline = await pdfDoc.getOutline();
+  return outline ? convertNodes(pdfDoc, outline) : [];
+}
+
+/**
+ * Offsets every page number in an outline, e.g. after pages were inserted
+ * in front of the ones it points to.
+ */
+export function shiftOutline(entries: OutlineEntry[], offset: number): OutlineEntry[] {
+  return entries.map((entry) => ({
+    title: entry.title,
+    pageNumber: entry.pageNumber === null ? null : entry.pageNumber + offset,
+    children: shiftOutline(entry.children, offset),
+  }));
+}
+
+/**
+ * Renumbers an outline through a map from old to new page numbers, e.g.
+ * when only some pages are copied. Entries for pages that were left out are
+ * dropped unless they still have entries under them.
+ */
+export function remapOutline(entries: OutlineEntry[], pageMap: Map<number, number>): OutlineEntry[] {
+  return entries.flatMap((entry) => {
+    const pageNumber = entry.pageNumber === null ? null : pageMap.get(entry.pageNumber) ?? null;
+    const children = remapOutline(entry.children, pageMap);
+    return pageNumber === null && children.length === 0 ? [] : [{ title: entry.title, pageNumber, children }];
+  });
+}
+
+// Writes one level of outline items and returns the first and last item and how many are visible
+function writeOutlineItems(pdfDoc: PDFDocument, entries: OutlineEntry[], parent: PDFRef) {
+  const { context } = pdfDoc;
+  const pages = pdfDoc.getPages();
+  const refs = entries.map(() => context.nextRef());
+  let count = entries.length;
+
+  entries.forEach((entry, i) => {
+    const item = context.obj({});
+    item.set(PDFName.of('Title'), PDFHexString.fromText(entry.title.trim() || 'Untitled'));
+    item.set(PDFName.of('Parent'), parent);
+    if (i > 0) item.set(PDFName.of('Prev'), refs[i - 1]);
+    if (i < refs.length - 1) item.set(PDFName.of('Next'), refs[i + 1]);
+
+    const page = entry.pageNumber !== null ? pages[entry.pageNumber - 1] : undefined;
+    if (page) {
+      item.set(PDFName.of('Dest'), context.obj([page.ref, 'XYZ', null, null, null]));
+    }
+
+    if (entry.children.length > 0) {
+      const children = writeOutlineItems(pdfDoc, entry.children, refs[i]);
+      item.set(PDFName.of('First'), children.first);
+      item.set(PDFName.of('Last'), children.last);
+      // A positive count shows the entry expanded
+      item.set(PDFName.of('Count'), PDFNumber.of(children.count));
+      count += children.count;
+    }
+
+    context.assign(refs[i], item);
+  });
+
+  return { first: refs[0], last: refs[refs.length - 1], count };
+}
+
+/**
+ * Replaces the document outline with the given entries. Entries without a
+ * page number, or pointing past the last page, become headings that do not
+ * navigate anywhere. An empty list removes the outline.
+ */
+export function writeOutline(pdfDoc: PDFDocument, entries: OutlineEntry[]) {
+  const { context, catalog } = pdfDoc;
+  catalog.delete(PDFName.of('Outlines'));
+  if (entries.length === 0) return;
+
+  const outlinesRef = context.nextRef();
+  const { first, last, count } = writeOutlineItems(pdfDoc, entries, outlinesRef);
+  context.assign(outlinesRef, context.obj({ Type: 'Outlines', First: first, Last: last, Count: count }));
+  catalog.set(PDFName.of('Outlines'), outlinesRef);
+  // Open the bookmarks panel when the document is opened
+  catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
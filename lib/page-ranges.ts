@@ -0,0 +1,39 @@
+/**
+ * Parses a page selection such as "1-3, 7, 10-" into sorted, unique 1-based
+ * page numbers. An empty selection means every page of the document.
+ */
+export function parsePageRanges(input: string | null | undefined, pageCount: number): number[] {
+  const selection = (input || '').trim();
+  if (!selection) {
+    return Array.from({ length: pageCount }, (_, i) => i + 1);
+  }
+
+  const pages = new Set<number>();
+  for (const part of selection.split(',')) {
+    const token = part.trim();
+    if (!token) continue;
+
+    const match = token.match(/^(\d*)\s*(?:-\s*(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) {
+      throw new Error(`Invalid page range: "${token}"`);
+    }
+
+    const isRange = token.includes('-');
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = isRange ? (match[2] ? parseInt(match[2], 10) : pageCount) : start;
+
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(`Invalid page range: ${token}. Document has ${pageCount} pages.`);
+    }
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+
+  if (pages.size === 0) {
+    throw new Error('No pages selected');
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+}
@@ -0,0 +1,58 @@
+import { PDFName, PDFPage, PageSizes } from 'pdf-lib';
+
+export type PaperSize = 'a4' | 'letter';
+
+// Portrait width and height in points
+export const PAPER_SIZES: Record<PaperSize, [number, number]> = {
+  a4: PageSizes.A4,
+  letter: PageSizes.Letter,
+};
+
+const isSideways = (page: PDFPage) => {
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  return rotation === 90 || rotation === 270;
+};
+
+// Width and height of the page as it is displayed, after /Rotate is applied
+export function getVisibleSize(page: PDFPage): [number, number] {
+  const { width, height } = page.getCropBox();
+  return isSideways(page) ? [height, width] : [width, height];
+}
+
+// The paper size turned to landscape for landscape dimensions
+export function orientPaper(paper: PaperSize, width: number, height: number): [number, number] {
+  const [paperWidth, paperHeight] = PAPER_SIZES[paper];
+  return width > height ? [paperHeight, paperWidth] : [paperWidth, paperHeight];
+}
+
+/**
+ * The paper size in the page's own (unrotated) coordinates, turned to
+ * landscape when the page is viewed in landscape.
+ */
+function getPaperSizeForPage(page: PDFPage, paper: PaperSize): [number, number] {
+  const [visibleWidth, visibleHeight] = orientPaper(paper, ...getVisibleSize(page));
+  return isSideways(page) ? [visibleHeight, visibleWidth] : [visibleWidth, visibleHeight];
+}
+
+/**
+ * Scales the visible part of a page to fit the paper size and centres it,
+ * keeping the page's orientation. Annotations are scaled with the content.
+ */
+export function fitPageToPaper(page: PDFPage, paper: PaperSize) {
+  const [targetWidth, targetHeight] = getPaperSizeForPage(page, paper);
+  const box = page.getCropBox();
+  const factor = Math.min(targetWidth / box.width, targetHeight / box.height);
+
+  page.scaleContent(factor, factor);
+  page.scaleAnnotations(factor, factor);
+
+  // Centring moves the page box around the content rather than the content
+  // itself, so links and form fields stay where they were drawn
+  const x = box.x * factor - (targetWidth - box.width * factor) / 2;
+  const y = box.y * factor - (targetHeight - box.height * factor) / 2;
+  page.setMediaBox(x, y, targetWidth, targetHeight);
+  page.setCropBox(x, y, targetWidth, targetHeight);
+  for (const name of ['BleedBox', 'TrimBox', 'ArtBox']) {
+    page.node.delete(PDFName.of(name));
+  }
+}
@@ -0,0 +1,11 @@
+import { StandardFonts } from 'pdf-lib';
+
+// Fonts offered for text stamped onto pages; these ship with every PDF reader
+export const STANDARD_FONTS: Record<string, StandardFonts> = {
+  helvetica: StandardFonts.Helvetica,
+  'helvetica-bold': StandardFonts.HelveticaBold,
+  times: StandardFonts.TimesRoman,
+  'times-bold': StandardFonts.TimesRomanBold,
+  courier: StandardFonts.Courier,
+  'courier-bold': StandardFonts.CourierBold,
+};
@@ -0,0 +1,207 @@
+import {
+  PDFButton,
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField,
+} from 'pdf-lib';
+
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'list' | 'button' | 'signature';
+
+export type FormFieldValue = string | boolean | string[];
+
+export type FormValues = Record<string, FormFieldValue>;
+
+// Where a field's widget sits, as fractions of the page from the top-left corner
+export interface FormFieldWidget {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FormFieldInfo {
+  name: string;
+  type: FormFieldType;
+  value: FormFieldValue;
+  options: string[];
+  required: boolean;
+  readOnly: boolean;
+  multiline: boolean;
+  multiSelect: boolean;
+  // Dropdowns that also accept values not in their options
+  editable: boolean;
+  maxLength: number | null;
+  widgets: FormFieldWidget[];
+}
+
+export class FormFillError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormFillError';
+  }
+}
+
+// CSV cells that tick a checkbox
+const CHECKED_VALUES = ['true', 'yes', 'y', '1', 'x', 'on', 'checked'];
+
+function getFieldType(field: PDFField): FormFieldType | null {
+  if (field instanceof PDFTextField) return 'text';
+  if (field instanceof PDFCheckBox) return 'checkbox';
+  if (field instanceof PDFRadioGroup) return 'radio';
+  if (field instanceof PDFDropdown) return 'dropdown';
+  if (field instanceof PDFOptionList) return 'list';
+  if (field instanceof PDFButton) return 'button';
+  if (field instanceof PDFSignature) return 'signature';
+  return null;
+}
+
+function getWidgets(pdfDoc: PDFDocument, field: PDFField): FormFieldWidget[] {
+  const pages = pdfDoc.getPages();
+  return field.acroField.getWidgets().flatMap((widget) => {
+    // Widgets do not always record their page, so look for them in each page's annotations
+    const pageIndex = pages.findIndex((page) =>
+      page.node.Annots()?.asArray().some((ref) => pdfDoc.context.lookup(ref) === widget.dict)
+    );
+    if (pageIndex === -1) return [];
+
+    const box = pages[pageIndex].getCropBox();
+    const rect = widget.getRectangle();
+    return [{
+      page: pageIndex + 1,
+      x: (rect.x - box.x) / box.width,
+      y: 1 - (rect.y + rect.height - box.y) / box.height,
+      width: rect.width / box.width,
+      height: rect.height / box.height,
+    }];
+  });
+}
+
+function getFieldValue(field: PDFField): FormFieldValue {
+  if (field instanceof PDFTextField) return field.getText() || '';
+  if (field instanceof PDFCheckBox) return field.isChecked();
+  if (field instanceof PDFRadioGroup) return field.getSelected() || '';
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) return field.getSelected();
+  return '';
+}
+
+export function listFormFields(pdfDoc: PDFDocument): FormFieldInfo[] {
+  return pdfDoc.getForm().getFields().flatMap((field) => {
+    const type = getFieldType(field);
+    if (!type) return [];
+
+    const hasOptions =
+      field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList;
+    return [{
+      name: field.getName(),
+      type,
+      value: getFieldValue(field),
+      options: hasOptions ? field.getOptions() : [],
+      required: field.isRequired(),
+      readOnly: field.isReadOnly(),
+      multiline: field instanceof PDFTextField && field.isMultiline(),
+      multiSelect: (field instanceof PDFDropdown || field instanceof PDFOptionList) && field.isMultiselect(),
+      editable: field instanceof PDFDropdown && field.isEditable(),
+      maxLength: field instanceof PDFTextField ? field.getMaxLength() ?? null : null,
+      widgets: getWidgets(pdfDoc, field),
+    }];
+  });
+}
+
+function setFieldValue(field: PDFField, value: FormFieldValue) {
+  const name = field.getName();
+  const values = Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : [];
+
+  if (field instanceof PDFTextField) {
+    const text = Array.isArray(value) ? value.join(', ') : String(value);
+    const maxLength = field.getMaxLength();
+    if (maxLength !== undefined && text.length > maxLength) {
+      throw new FormFillError(`"${name}" accepts at most ${maxLength} characters`);
+    }
+    field.setText(text);
+  } else if (field instanceof PDFCheckBox) {
+    const checked = typeof value === 'boolean' ? value : CHECKED_VALUES.includes(String(value).trim().toLowerCase());
+    if (checked) {
+      field.check();
+    } else {
+      field.uncheck();
+    }
+  } else if (field instanceof PDFRadioGroup) {
+    if (values.length === 0) {
+      field.clear();
+    } else if (!field.getOptions().includes(values[0])) {
+      throw new FormFillError(`"${values[0]}" is not an option of "${name}"`);
+    } else {
+      field.select(values[0]);
+    }
+  } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    const options = field.getOptions();
+    const allowsOtherValues = field instanceof PDFDropdown && field.isEditable();
+    const invalid = values.find((option) => !options.includes(option));
+    if (invalid !== undefined && !allowsOtherValues) {
+      throw new FormFillError(`"${invalid}" is not an option of "${name}"`);
+    }
+    if (values.length > 1 && !field.isMultiselect()) {
+      throw new FormFillError(`"${name}" accepts only one selection`);
+    }
+    if (values.length === 0) {
+      field.clear();
+    } else {
+      field.select(values);
+    }
+  }
+}
+
+/**
+ * Fills form fields by name and optionally flattens the form so the values
+ * become ordinary page content. Unknown field names and values that are not
+ * among a field's options raise a FormFillError.
+ */
+export function fillFormFields(pdfDoc: PDFDocument, values: FormValues, { flatten = false } = {}) {
+  const form = pdfDoc.getForm();
+
+  for (const [name, value] of Object.entries(values)) {
+    const field = form.getFields().find((candidate) => candidate.getName() === name);
+    if (!field) {
+      throw new FormFillError(`Unknown form field: ${name}`);
+    }
+    try {
+      setFieldValue(field, value);
+    } catch (error) {
+      if (error instanceof FormFillError) throw error;
+      // pdf-lib's own errors, e.g. characters the field's font cannot encode
+      throw new FormFillError(`Could not set "${name}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (flatten) {
+    form.flatten();
+  }
+}
+
+/**
+ * Turns one CSV row into form values using the header row for field names.
+ * Columns that do not name a field are ignored and empty cells leave the
+ * field as it is; multi-select lists take several options separated by ";".
+ */
+export function csvRowToFormValues(fields: FormFieldInfo[], header: string[], row: string[]): FormValues {
+  const values: FormValues = {};
+  header.forEach((column, i) => {
+    const field = fields.find((candidate) => candidate.name === column.trim());
+    const cell = row[i]?.trim();
+    if (!field || !cell) return;
+
+    values[field.name] = field.type === 'checkbox'
+      ? CHECKED_VALUES.includes(cell.toLowerCase())
+      : field.multiSelect
+        ? cell.split(';').map((option) => option.trim()).filter(Boolean)
+        : cell;
+  });
+  return values;
+}
+
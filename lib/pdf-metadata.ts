@@ -0,0 +1,289 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+
+export interface PdfMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string;
+  producer: string;
+  // ISO 8601 strings; empty when the document does not record the date
+  creationDate: string;
+  modificationDate: string;
+}
+
+export interface PdfFontInfo {
+  name: string;
+  type: string;
+  embedded: boolean;
+  subset: boolean;
+}
+
+export interface PdfProperties {
+  pageCount: number;
+  version: string;
+  pageSizes: { width: number; height: number; count: number }[];
+  encrypted: boolean;
+  encryption: string | null;
+  fonts: PdfFontInfo[];
+  // Encrypted documents keep their strings encrypted, so metadata is not readable
+  metadata: PdfMetadata | null;
+  xmp: string | null;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function getVersion(pdfDoc: PDFDocument, pdfBytes: Uint8Array) {
+  const header = Buffer.from(pdfBytes.subarray(0, 1024)).toString('latin1');
+  const headerVersion = header.match(/%PDF-(\d+\.\d+)/)?.[1] || 'unknown';
+
+  // A /Version entry in the catalog overrides the header when it is newer
+  const catalogVersion = pdfDoc.catalog.lookupMaybe(PDFName.of('Version'), PDFName);
+  const override = catalogVersion?.decodeText();
+  return override && (headerVersion === 'unknown' || parseFloat(override) > parseFloat(headerVersion))
+    ? override
+    : headerVersion;
+}
+
+function getEncryption(pdfDoc: PDFDocument) {
+  const encrypt = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Encrypt);
+  if (!(encrypt instanceof PDFDict)) {
+    return null;
+  }
+
+  const filter = encrypt.lookupMaybe(PDFName.of('Filter'), PDFName)?.decodeText() || 'Unknown';
+  const version = encrypt.get(PDFName.of('V'))?.toString();
+  const revision = encrypt.get(PDFName.of('R'))?.toString();
+  const cipher =
+    version === '5' ? 'AES-256'
+    : version === '4' ? 'AES-128 or RC4-128'
+    : version === '2' ? 'RC4-128'
+    : version === '1' ? 'RC4-40'
+    : 'Unknown cipher';
+  return `${filter} security handler, ${cipher}${revision ? ` (revision ${revision})` : ''}`;
+}
+
+function getPageSizes(pdfDoc: PDFDocument) {
+  const sizes = new Map<string, { width: number; height: number; count: number }>();
+  for (const page of pdfDoc.getPages()) {
+    const { width, height } = page.getSize();
+    const rotated = page.getRotation().angle % 180 !== 0;
+    const size = {
+      width: Math.round(rotated ? height : width),
+      height: Math.round(rotated ? width : height),
+    };
+    const key = `${size.width}x${size.height}`;
+    const existing = sizes.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      sizes.set(key, { ...size, count: 1 });
+    }
+  }
+  return Array.from(sizes.values());
+}
+
+function describeFont(pdfDoc: PDFDocument, font: PDFDict): PdfFontInfo {
+  const baseFont = font.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText() || 'Unnamed';
+  const type = font.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() || 'Unknown';
+
+  // Composite fonts keep their descriptor on the descendant font
+  let descriptorOwner = font;
+  const descendants = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray);
+  if (descendants && descendants.size() > 0) {
+    descriptorOwner = pdfDoc.context.lookup(descendants.get(0), PDFDict);
+  }
+  const descriptor = descriptorOwner.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  const embedded =
+    type === 'Type3' ||
+    ['FontFile', 'FontFile2', 'FontFile3'].some((key) => descriptor?.has(PDFName.of(key)));
+
+  return {
+    name: baseFont.replace(/^[A-Z]{6}\+/, ''),
+    type,
+    embedded,
+    subset: /^[A-Z]{6}\+/.test(baseFont),
+  };
+}
+
+function getFonts(pdfDoc: PDFDocument) {
+  const fonts = new Map<string, PdfFontInfo>();
+  const visited = new Set<PDFObject>();
+
+  // Fonts can also live in the resources of form XObjects drawn on the page
+  const collect = (resources: PDFDict | undefined) => {
+    if (!resources || visited.has(resources)) return;
+    visited.add(resources);
+
+    const fontDict = resources.lookupMaybe(PDFName.of('Font'), PDFDict);
+    fontDict?.entries().forEach(([, ref]) => {
+      const font = pdfDoc.context.lookup(ref);
+      if (font instanceof PDFDict && !visited.has(font)) {
+        visited.add(font);
+        const info = describeFont(pdfDoc, font);
+        fonts.set(`${info.name}|${info.type}|${info.embedded}`, info);
+      }
+    });
+
+    const xObjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    xObjects?.entries().forEach(([, ref]) => {
+      const xObject = pdfDoc.context.lookup(ref);
+      if (xObject instanceof PDFStream) {
+        collect(xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict));
+      }
+    });
+  };
+
+  pdfDoc.getPages().forEach((page) => collect(page.node.Resources()));
+  return Array.from(fonts.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function readXmp(pdfDoc: PDFDocument) {
+  const stream = pdfDoc.catalog.lookup(PDFName.of('Metadata'));
+  if (!(stream instanceof PDFRawStream)) {
+    return null;
+  }
+  return Buffer.from(decodePDFRawStream(stream).decode()).toString('utf8');
+}
+
+function readMetadata(pdfDoc: PDFDocument): PdfMetadata {
+  const toIso = (date: Date | undefined) =>
+    date && !isNaN(date.getTime()) ? date.toISOString() : '';
+
+  return {
+    title: pdfDoc.getTitle() || '',
+    author: pdfDoc.getAuthor() || '',
+    subject: pdfDoc.getSubject() || '',
+    keywords: pdfDoc.getKeywords() || '',
+    creator: pdfDoc.getCreator() || '',
+    producer: pdfDoc.getProducer() || '',
+    creationDate: toIso(pdfDoc.getCreationDate()),
+    modificationDate: toIso(pdfDoc.getModificationDate()),
+  };
+}
+
+export async function readPdfProperties(pdfBytes: ArrayBuffer | Uint8Array): Promise<PdfProperties> {
+  const bytes = new Uint8Array(pdfBytes);
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const encrypted = pdfDoc.isEncrypted;
+
+  return {
+    pageCount: pdfDoc.getPageCount(),
+    version: getVersion(pdfDoc, bytes),
+    pageSizes: getPageSizes(pdfDoc),
+    encrypted,
+    encryption: getEncryption(pdfDoc),
+    fonts: getFonts(pdfDoc),
+    metadata: encrypted ? null : readMetadata(pdfDoc),
+    xmp: encrypted ? null : readXmp(pdfDoc),
+  };
+}
+
+function parseDate(value: string) {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+function buildXmp(metadata: PdfMetadata, previousXmp: string | null) {
+  const keep = (tag: string) => previousXmp?.match(new RegExp(`<${tag}>[^<]*</${tag}>`))?.[0] || '';
+  const text = (tag: string, value: string) => (value ? `<${tag}>${escapeXml(value)}</${tag}>` : '');
+  const alt = (tag: string, value: string) =>
+    value ? `<${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>` : '';
+
+  const properties = [
+    alt('dc:title', metadata.title),
+    metadata.author ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>` : '',
+    alt('dc:description', metadata.subject),
+    text('pdf:Keywords', metadata.keywords),
+    text('pdf:Producer', metadata.producer),
+    text('xmp:CreatorTool', metadata.creator),
+    text('xmp:CreateDate', metadata.creationDate),
+    text('xmp:ModifyDate', metadata.modificationDate),
+    // PDF/A identification has to survive or validators reject the file
+    keep('pdfaid:part'),
+    keep('pdfaid:conformance'),
+  ].filter(Boolean);
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      ${properties.join('\n      ')}
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * Replaces the document information dictionary and the XMP metadata stream so
+ * both describe the same values. Empty fields are removed rather than blanked,
+ * which is what scrubbing author names before publishing relies on.
+ */
+export async function writePdfMetadata(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  metadata: PdfMetadata
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const previousXmp = readXmp(pdfDoc);
+
+  const fields: [keyof PdfMetadata, string, (value: string) => void][] = [
+    ['title', 'Title', (value) => pdfDoc.setTitle(value)],
+    ['author', 'Author', (value) => pdfDoc.setAuthor(value)],
+    ['subject', 'Subject', (value) => pdfDoc.setSubject(value)],
+    ['keywords', 'Keywords', (value) => pdfDoc.setKeywords(value.split(',').map((keyword) => keyword.trim()).filter(Boolean))],
+    ['creator', 'Creator', (value) => pdfDoc.setCreator(value)],
+    ['producer', 'Producer', (value) => pdfDoc.setProducer(value)],
+    ['creationDate', 'CreationDate', (value) => pdfDoc.setCreationDate(parseDate(value))],
+    ['modificationDate', 'ModDate', (value) => pdfDoc.setModificationDate(parseDate(value))],
+  ];
+
+  const removed: string[] = [];
+  for (const [field, key, setValue] of fields) {
+    if (metadata[field].trim()) {
+      setValue(metadata[field].trim());
+    } else {
+      removed.push(key);
+    }
+  }
+
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+  if (info instanceof PDFDict) {
+    removed.forEach((key) => info.delete(PDFName.of(key)));
+  }
+
+  const xmpStream = pdfDoc.context.stream(Buffer.from(buildXmp(metadata, previousXmp), 'utf8'), {
+    Type: 'Metadata',
+    Subtype: 'XML',
+  });
+  const existingRef = pdfDoc.catalog.get(PDFName.of('Metadata'));
+  if (existingRef instanceof PDFRef) {
+    pdfDoc.context.assign(existingRef, xmpStream);
+  } else {
+    pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(xmpStream));
+  }
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,465 @@
+import { createHash } from 'crypto';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+
+export interface OptimizeOptions {
+  // JPEG quality (1-100) used when re-encoding embedded images
+  imageQuality: number;
+  // Images whose effective resolution exceeds this are downsampled to it
+  maxImageDpi: number;
+}
+
+export interface OptimizedImage {
+  ref: string;
+  pages: number[];
+  width: number;
+  height: number;
+  originalSize: number;
+  optimizedSize: number;
+}
+
+export interface OptimizeStats {
+  images: OptimizedImage[];
+  // Total bytes of image data drawn on each page, indexed by page number - 1
+  pageImageBytes: number[];
+  duplicatesRemoved: number;
+  unusedResourcesRemoved: number;
+  unreachableObjectsRemoved: number;
+}
+
+const SUPPORTED_COLOR_SPACES: Record<string, number> = {
+  DeviceRGB: 3,
+  DeviceGray: 1,
+};
+
+const getName = (value: PDFObject | undefined) =>
+  value instanceof PDFName ? value.decodeText() : undefined;
+
+const getNumber = (value: PDFObject | undefined) =>
+  value instanceof PDFNumber ? value.asNumber() : undefined;
+
+// Returns the number of colour components for image colour spaces we can re-encode
+function getImageChannels(doc: PDFDocument, dict: PDFDict) {
+  const colorSpace = doc.context.lookup(dict.get(PDFName.of('ColorSpace')));
+  const name = getName(colorSpace);
+  if (name) {
+    return SUPPORTED_COLOR_SPACES[name];
+  }
+
+  // ICC profiles keep working as long as the component count does not change
+  if (colorSpace instanceof PDFArray && getName(colorSpace.get(0)) === 'ICCBased') {
+    const profile = doc.context.lookup(colorSpace.get(1));
+    const components = profile instanceof PDFStream ? getNumber(profile.dict.get(PDFName.of('N'))) : undefined;
+    return components === 1 || components === 3 ? components : undefined;
+  }
+
+  return undefined;
+}
+
+function getFilters(dict: PDFDict) {
+  const filter = dict.get(PDFName.of('Filter'));
+  if (filter instanceof PDFArray) {
+    return filter.asArray().map(getName);
+  }
+  return filter ? [getName(filter)] : [];
+}
+
+// Reverses PNG row filters (DecodeParms /Predictor 10-15) on 8-bit image data
+function removePngPredictor(data: Uint8Array, width: number, height: number, channels: number) {
+  const rowLength = width * channels;
+  const output = new Uint8Array(rowLength * height);
+
+  for (let row = 0; row < height; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const input = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+    const offset = row * rowLength;
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= channels ? output[offset + i - channels] : 0;
+      const up = row > 0 ? output[offset + i - rowLength] : 0;
+      const upLeft = row > 0 && i >= channels ? output[offset + i - rowLength - channels] : 0;
+
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = (left + up) >> 1;
+      else if (filter === 4) {
+        const estimate = left + up - upLeft;
+        const distances = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)];
+        predicted = distances[0] <= distances[1] && distances[0] <= distances[2]
+          ? left
+          : distances[1] <= distances[2] ? up : upLeft;
+      }
+
+      output[offset + i] = (input[i] + predicted) & 0xff;
+    }
+  }
+
+  return output;
+}
+
+// Decodes Flate image data, undoing a PNG predictor when the parameters match the image
+function decodeFlateImage(doc: PDFDocument, stream: PDFRawStream, width: number, height: number, channels: number) {
+  const data = decodePDFRawStream(stream).decode();
+  const params = doc.context.lookupMaybe(stream.dict.get(PDFName.of('DecodeParms')), PDFDict);
+  if (!params) return data;
+
+  const predictor = getNumber(params.get(PDFName.of('Predictor'))) || 1;
+  const colors = getNumber(params.get(PDFName.of('Colors'))) || 1;
+  const bits = getNumber(params.get(PDFName.of('BitsPerComponent'))) || 8;
+  const columns = getNumber(params.get(PDFName.of('Columns'))) || 1;
+
+  if (predictor === 1) return data;
+  if (predictor < 10 || colors !== channels || bits !== 8 || columns !== width) return null;
+  return removePngPredictor(data, width, height, channels);
+}
+
+export interface DecodedImage {
+  pixels: Uint8Array;
+  width: number;
+  height: number;
+  channels: 1 | 3;
+}
+
+// Decodes an 8-bit grey or RGB image XObject to raw pixels; null for anything else
+export async function decodeImagePixels(doc: PDFDocument, stream: PDFRawStream): Promise<DecodedImage | null> {
+  const { dict } = stream;
+  const width = getNumber(dict.get(PDFName.of('Width')));
+  const height = getNumber(dict.get(PDFName.of('Height')));
+  const channels = getImageChannels(doc, dict);
+  const filters = getFilters(dict);
+
+  if (
+    !width || !height || !channels ||
+    getNumber(dict.get(PDFName.of('BitsPerComponent'))) !== 8 ||
+    dict.has(PDFName.of('ImageMask')) ||
+    dict.has(PDFName.of('Decode')) ||
+    filters.length !== 1 ||
+    (filters[0] !== 'DCTDecode' && filters[0] !== 'FlateDecode')
+  ) {
+    return null;
+  }
+
+  if (filters[0] === 'FlateDecode') {
+    const pixels = decodeFlateImage(doc, stream, width, height, channels);
+    if (!pixels || pixels.length < width * height * channels) return null;
+    return { pixels: pixels.subarray(0, width * height * channels), width, height, channels: channels as 1 | 3 };
+  }
+
+  const sharp = (await import('sharp')).default;
+  const { data, info } = await sharp(Buffer.from(stream.contents)).raw().toBuffer({ resolveWithObject: true });
+  if (info.width !== width || info.height !== height || info.channels !== channels) return null;
+  return { pixels: new Uint8Array(data), width, height, channels: channels as 1 | 3 };
+}
+
+// Maps every image XObject to the pages that draw it and the largest page size it appears on
+function collectImageUsage(doc: PDFDocument) {
+  const usage = new Map<PDFRef, { pages: number[]; pageWidth: number; pageHeight: number }>();
+
+  doc.getPages().forEach((page, index) => {
+    const xObjects = page.node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    if (!xObjects) return;
+
+    const { width, height } = page.getSize();
+    for (const value of xObjects.values()) {
+      if (!(value instanceof PDFRef)) continue;
+      const entry = usage.get(value) || { pages: [], pageWidth: 0, pageHeight: 0 };
+      entry.pages.push(index + 1);
+      entry.pageWidth = Math.max(entry.pageWidth, width);
+      entry.pageHeight = Math.max(entry.pageHeight, height);
+      usage.set(value, entry);
+    }
+  });
+
+  return usage;
+}
+
+async function recompressImages(doc: PDFDocument, options: OptimizeOptions) {
+  const sharp = (await import('sharp')).default;
+  const usage = collectImageUsage(doc);
+  const images: OptimizedImage[] = [];
+
+  for (const [ref, object] of doc.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+
+    const { dict } = object;
+    if (getName(dict.get(PDFName.of('Subtype'))) !== 'Image') continue;
+
+    const width = getNumber(dict.get(PDFName.of('Width')));
+    const height = getNumber(dict.get(PDFName.of('Height')));
+    const channels = getImageChannels(doc, dict);
+    const filters = getFilters(dict);
+
+    // Skip anything whose pixel semantics would change when re-encoded as a plain JPEG
+    if (
+      !width || !height || !channels ||
+      getNumber(dict.get(PDFName.of('BitsPerComponent'))) !== 8 ||
+      dict.has(PDFName.of('ImageMask')) ||
+      dict.has(PDFName.of('Mask')) ||
+      dict.has(PDFName.of('Decode')) ||
+      filters.length !== 1 ||
+      (filters[0] !== 'DCTDecode' && filters[0] !== 'FlateDecode')
+    ) {
+      continue;
+    }
+
+    try {
+      let input;
+      if (filters[0] === 'DCTDecode') {
+        input = sharp(Buffer.from(object.contents));
+      } else {
+        const pixels = decodeFlateImage(doc, object, width, height, channels);
+        if (!pixels || pixels.length < width * height * channels) continue;
+        input = sharp(Buffer.from(pixels.subarray(0, width * height * channels)), {
+          raw: { width, height, channels: channels as 1 | 3 },
+        });
+      }
+
+      // Effective DPI is measured against the largest page the image is drawn on,
+      // which never overestimates it for images drawn smaller than the page
+      const pageUsage = usage.get(ref);
+      const dpi = pageUsage
+        ? Math.min(width / (pageUsage.pageWidth / 72), height / (pageUsage.pageHeight / 72))
+        : 0;
+      const ratio = dpi > options.maxImageDpi ? options.maxImageDpi / dpi : 1;
+      const targetWidth = Math.max(1, Math.round(width * ratio));
+      const targetHeight = Math.max(1, Math.round(height * ratio));
+
+      let pipeline = ratio < 1 ? input.resize(targetWidth, targetHeight, { fit: 'fill' }) : input;
+      if (channels === 1) {
+        pipeline = pipeline.toColourspace('b-w');
+      }
+      const jpeg = await pipeline.jpeg({ quality: options.imageQuality, mozjpeg: true }).toBuffer();
+
+      // Keep the original whenever re-encoding would not make it smaller
+      if (jpeg.length >= object.contents.length) continue;
+
+      const newDict = dict.clone(doc.context);
+      newDict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+      newDict.set(PDFName.of('Width'), PDFNumber.of(targetWidth));
+      newDict.set(PDFName.of('Height'), PDFNumber.of(targetHeight));
+      newDict.set(PDFName.of('Length'), PDFNumber.of(jpeg.length));
+      newDict.delete(PDFName.of('DecodeParms'));
+      doc.context.assign(ref, PDFRawStream.of(newDict, new Uint8Array(jpeg)));
+
+      images.push({
+        ref: ref.toString(),
+        pages: pageUsage?.pages || [],
+        width: targetWidth,
+        height: targetHeight,
+        originalSize: object.contents.length,
+        optimizedSize: jpeg.length,
+      });
+    } catch (error) {
+      console.error(`Error recompressing image ${ref.toString()}:`, error);
+    }
+  }
+
+  return images;
+}
+
+function replaceRefs(object: PDFObject, replacements: Map<PDFRef, PDFRef>) {
+  if (object instanceof PDFStream) {
+    replaceRefs(object.dict, replacements);
+  } else if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      if (value instanceof PDFRef) {
+        const replacement = replacements.get(value);
+        if (replacement) object.set(key, replacement);
+      } else {
+        replaceRefs(value, replacements);
+      }
+    }
+  } else if (object instanceof PDFArray) {
+    object.asArray().forEach((value, index) => {
+      if (value instanceof PDFRef) {
+        const replacement = replacements.get(value);
+        if (replacement) object.set(index, replacement);
+      } else {
+        replaceRefs(value, replacements);
+      }
+    });
+  }
+}
+
+// Merges byte-identical streams (embedded fonts, images, repeated logos) into one object
+function removeDuplicateStreams(doc: PDFDocument) {
+  const canonical = new Map<string, PDFRef>();
+  const replacements = new Map<PDFRef, PDFRef>();
+
+  for (const [ref, object] of doc.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+
+    const hash = createHash('sha1')
+      .update(object.dict.toString())
+      .update(object.contents)
+      .digest('hex');
+    const existing = canonical.get(hash);
+    if (existing) {
+      replacements.set(ref, existing);
+    } else {
+      canonical.set(hash, ref);
+    }
+  }
+
+  if (replacements.size === 0) return 0;
+
+  for (const [, object] of doc.context.enumerateIndirectObjects()) {
+    replaceRefs(object, replacements);
+  }
+  replacements.forEach((_, ref) => doc.context.delete(ref));
+
+  return replacements.size;
+}
+
+function collectContentNames(doc: PDFDocument, stream: PDFObject | undefined, names: Set<string>) {
+  const object = stream instanceof PDFRef ? doc.context.lookup(stream) : stream;
+
+  if (object instanceof PDFArray) {
+    object.asArray().forEach(item => collectContentNames(doc, item, names));
+    return true;
+  }
+
+  if (!(object instanceof PDFRawStream)) {
+    return object === undefined;
+  }
+
+  try {
+    const content = Buffer.from(decodePDFRawStream(object).decode()).toString('latin1');
+    for (const match of content.matchAll(/\/([^\s\/\[\]()<>{}%]+)/g)) {
+      names.add(match[1]);
+    }
+    return true;
+  } catch {
+    // Content we cannot decode might use any resource
+    return false;
+  }
+}
+
+// Drops Font and XObject entries from page resources that no content stream refers to
+function removeUnusedResources(doc: PDFDocument) {
+  const usedNames = new Set<string>();
+
+  for (const [, object] of doc.context.enumerateIndirectObjects()) {
+    const isForm = object instanceof PDFRawStream &&
+      getName(object.dict.get(PDFName.of('Subtype'))) === 'Form';
+    if (isForm && !collectContentNames(doc, object, usedNames)) {
+      return 0;
+    }
+  }
+
+  for (const page of doc.getPages()) {
+    if (!collectContentNames(doc, page.node.get(PDFName.of('Contents')), usedNames)) {
+      return 0;
+    }
+  }
+
+  let removed = 0;
+  for (const page of doc.getPages()) {
+    const resources = page.node.Resources();
+    if (!resources) continue;
+
+    for (const category of ['Font', 'XObject']) {
+      const entries = resources.lookupMaybe(PDFName.of(category), PDFDict);
+      if (!entries) continue;
+
+      for (const key of entries.keys()) {
+        if (!usedNames.has(key.decodeText())) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+    }
+  }
+
+  return removed;
+}
+
+function measurePageImages(doc: PDFDocument) {
+  return doc.getPages().map((page) => {
+    const xObjects = page.node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    if (!xObjects) return 0;
+
+    let total = 0;
+    for (const value of xObjects.values()) {
+      const object = doc.context.lookup(value);
+      if (object instanceof PDFRawStream && getName(object.dict.get(PDFName.of('Subtype'))) === 'Image') {
+        total += object.contents.length;
+      }
+    }
+    return total;
+  });
+}
+
+// Deletes objects that can no longer be reached from the document trailer
+export function removeUnreachableObjects(doc: PDFDocument) {
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = Object.values(doc.context.trailerInfo)
+    .filter((value): value is PDFObject => value !== undefined);
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      const target = doc.context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    }
+  }
+
+  let removed = 0;
+  for (const [ref] of doc.context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) {
+      doc.context.delete(ref);
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Shrinks a PDF without rasterizing it: text, links, forms and bookmarks are
+ * kept intact while images, duplicate streams and dead objects are slimmed down.
+ */
+export async function optimizePdf(pdfBytes: ArrayBuffer | Uint8Array, options: OptimizeOptions) {
+  try {
+    const doc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+
+    const images = await recompressImages(doc, options);
+    const duplicatesRemoved = removeDuplicateStreams(doc);
+    const unusedResourcesRemoved = removeUnusedResources(doc);
+    const unreachableObjectsRemoved = removeUnreachableObjects(doc);
+    const pageImageBytes = measurePageImages(doc);
+
+    const bytes = await doc.save({ useObjectStreams: true });
+    const stats: OptimizeStats = {
+      images,
+      pageImageBytes,
+      duplicatesRemoved,
+      unusedResourcesRemoved,
+      unreachableObjectsRemoved,
+    };
+
+    return { bytes, stats };
+  } catch (error) {
+    console.error('Error optimizing PDF:', error);
+    throw new Error('Failed to optimize PDF');
+  }
+}
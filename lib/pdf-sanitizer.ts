@@ -0,0 +1,462 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+import { parseContentStream, readContentStream, setFormContent, setPageContent } from './content-stream';
+import { removeUnreachableObjects } from './pdf-optimizer';
+
+export interface SanitizeOptions {
+  // Document information dictionary, XMP streams and application private data
+  metadata: boolean;
+  javascript: boolean;
+  attachments: boolean;
+  hiddenLayers: boolean;
+  forms: boolean;
+  // Annotation subtypes to delete, e.g. ["Text", "Highlight", "Ink"]
+  annotationTypes: string[];
+  thumbnails: boolean;
+}
+
+export interface SanitizeReport {
+  documentInfo: string[];
+  xmpStreams: number;
+  privateData: number;
+  javascript: number;
+  attachments: string[];
+  hiddenLayers: string[];
+  hiddenContent: number;
+  formFields: number;
+  annotations: Record<string, number>;
+  thumbnails: number;
+  previousRevisions: number;
+  unreferencedObjects: number;
+  originalSize: number;
+  finalSize: number;
+}
+
+const getName = (value: PDFObject | undefined) =>
+  value instanceof PDFName ? value.decodeText() : undefined;
+
+const getText = (value: PDFObject | undefined) =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+
+// Calls visit for every dictionary in the document, including nested direct ones
+function forEachDict(doc: PDFDocument, visit: (dict: PDFDict) => void) {
+  const walk = (object: PDFObject) => {
+    if (object instanceof PDFStream) {
+      walk(object.dict);
+    } else if (object instanceof PDFDict) {
+      visit(object);
+      object.values().forEach(walk);
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(walk);
+    }
+  };
+
+  for (const [, object] of doc.context.enumerateIndirectObjects()) {
+    walk(object);
+  }
+}
+
+// Leaf values of a name tree such as /EmbeddedFiles or /JavaScript, keyed by name
+function readNameTree(doc: PDFDocument, root: PDFDict | undefined) {
+  const entries: { name: string; value: PDFObject }[] = [];
+  const visit = (node: PDFDict | undefined, depth: number) => {
+    if (!node || depth > 32) return;
+    const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+    for (let i = 0; names && i + 1 < names.size(); i += 2) {
+      entries.push({ name: getText(doc.context.lookup(names.get(i))) || '', value: names.get(i + 1) });
+    }
+    node.lookupMaybe(PDFName.of('Kids'), PDFArray)?.asArray().forEach((kid) => {
+      visit(doc.context.lookupMaybe(kid, PDFDict), depth + 1);
+    });
+  };
+  visit(root, 0);
+  return entries;
+}
+
+function removeDocumentMetadata(doc: PDFDocument, report: SanitizeReport) {
+  const info = doc.context.lookup(doc.context.trailerInfo.Info);
+  if (info instanceof PDFDict) {
+    report.documentInfo = info.keys().map((key) => key.decodeText());
+  }
+  doc.context.trailerInfo.Info = undefined;
+
+  forEachDict(doc, (dict) => {
+    if (dict.has(PDFName.of('Metadata'))) {
+      dict.delete(PDFName.of('Metadata'));
+      report.xmpStreams++;
+    }
+    if (dict.has(PDFName.of('PieceInfo'))) {
+      dict.delete(PDFName.of('PieceInfo'));
+      report.privateData++;
+    }
+  });
+}
+
+function isJavaScriptAction(doc: PDFDocument, value: PDFObject | undefined) {
+  const action = value instanceof PDFRef ? doc.context.lookup(value) : value;
+  return action instanceof PDFDict && getName(action.get(PDFName.of('S'))) === 'JavaScript';
+}
+
+function removeJavaScript(doc: PDFDocument, report: SanitizeReport) {
+  const names = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const scripts = names?.lookupMaybe(PDFName.of('JavaScript'), PDFDict);
+  if (names && scripts) {
+    report.javascript += readNameTree(doc, scripts).length;
+    names.delete(PDFName.of('JavaScript'));
+  }
+
+  forEachDict(doc, (dict) => {
+    // Direct actions: link targets, the document open action and action chains
+    for (const key of ['A', 'OpenAction', 'Next']) {
+      const value = dict.get(PDFName.of(key));
+      if (isJavaScriptAction(doc, value)) {
+        dict.delete(PDFName.of(key));
+        report.javascript++;
+      } else if (key === 'Next' && value instanceof PDFArray) {
+        const kept = value.asArray().filter((action) => !isJavaScriptAction(doc, action));
+        report.javascript += value.size() - kept.length;
+        dict.set(PDFName.of(key), doc.context.obj(kept));
+      }
+    }
+
+    // Additional actions triggered by opening pages, focusing fields, etc.
+    const additional = dict.lookupMaybe(PDFName.of('AA'), PDFDict);
+    if (additional) {
+      for (const [trigger, action] of additional.entries()) {
+        if (isJavaScriptAction(doc, action)) {
+          additional.delete(trigger);
+          report.javascript++;
+        }
+      }
+      if (additional.keys().length === 0) {
+        dict.delete(PDFName.of('AA'));
+      }
+    }
+  });
+}
+
+function getAttachmentName(doc: PDFDocument, fileSpec: PDFObject | undefined) {
+  const spec = fileSpec instanceof PDFRef ? doc.context.lookup(fileSpec) : fileSpec;
+  if (spec instanceof PDFDict) {
+    return getText(spec.get(PDFName.of('UF'))) || getText(spec.get(PDFName.of('F'))) || 'Unnamed attachment';
+  }
+  return getText(spec) || 'Unnamed attachment';
+}
+
+function removeAttachments(doc: PDFDocument, report: SanitizeReport) {
+  const names = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const files = names?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict);
+  if (names && files) {
+    for (const entry of readNameTree(doc, files)) {
+      report.attachments.push(entry.name || getAttachmentName(doc, entry.value));
+    }
+    names.delete(PDFName.of('EmbeddedFiles'));
+  }
+
+  // Associated files (PDF 2.0) can hang off the catalog, pages or any object
+  forEachDict(doc, (dict) => {
+    const associated = dict.lookupMaybe(PDFName.of('AF'), PDFArray);
+    if (associated) {
+      associated.asArray().forEach((spec) => report.attachments.push(getAttachmentName(doc, spec)));
+      dict.delete(PDFName.of('AF'));
+    }
+  });
+}
+
+function countFormFields(doc: PDFDocument, fields: PDFArray | undefined, depth = 0): number {
+  if (!fields || depth > 32) return 0;
+  return fields.asArray().reduce<number>((count, ref) => {
+    const kids = doc.context.lookupMaybe(ref, PDFDict)?.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    const childFields = kids?.asArray().filter((kid) =>
+      doc.context.lookupMaybe(kid, PDFDict)?.has(PDFName.of('T'))
+    );
+    return count + (childFields && childFields.length > 0
+      ? countFormFields(doc, doc.context.obj(childFields), depth + 1)
+      : 1);
+  }, 0);
+}
+
+function removeForms(doc: PDFDocument, report: SanitizeReport) {
+  const acroForm = doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (acroForm) {
+    report.formFields = countFormFields(doc, acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray));
+    doc.catalog.delete(PDFName.of('AcroForm'));
+  }
+}
+
+// Optional content groups that are switched off in the default configuration
+function getHiddenLayers(doc: PDFDocument) {
+  const hidden = new Map<PDFRef, string>();
+  const properties = doc.catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+  const groups = properties?.lookupMaybe(PDFName.of('OCGs'), PDFArray);
+  if (!properties || !groups) return hidden;
+
+  const config = properties.lookupMaybe(PDFName.of('D'), PDFDict);
+  const refsIn = (key: string) =>
+    new Set(config?.lookupMaybe(PDFName.of(key), PDFArray)?.asArray() || []);
+  const baseOff = getName(config?.get(PDFName.of('BaseState'))) === 'OFF';
+  const on = refsIn('ON');
+  const off = refsIn('OFF');
+
+  for (const group of groups.asArray()) {
+    if (group instanceof PDFRef && (baseOff ? !on.has(group) : off.has(group))) {
+      const name = getText(doc.context.lookupMaybe(group, PDFDict)?.get(PDFName.of('Name')));
+      hidden.set(group, name || 'Unnamed layer');
+    }
+  }
+  return hidden;
+}
+
+function isHiddenContent(doc: PDFDocument, value: PDFObject | undefined, hidden: Map<PDFRef, string>) {
+  if (value instanceof PDFRef && hidden.has(value)) return true;
+
+  // Membership dictionaries combine several groups under a visibility policy
+  const membership = value instanceof PDFRef ? doc.context.lookup(value) : value;
+  if (!(membership instanceof PDFDict) || getName(membership.get(PDFName.of('Type'))) !== 'OCMD') {
+    return false;
+  }
+  const groups = membership.get(PDFName.of('OCGs'));
+  const refs = groups instanceof PDFArray ? groups.asArray() : groups ? [groups] : [];
+  if (refs.length === 0) return false;
+
+  const states = refs.map((ref) => ref instanceof PDFRef && hidden.has(ref));
+  switch (getName(membership.get(PDFName.of('P'))) || 'AnyOn') {
+    case 'AllOn': return states.some((isHidden) => isHidden);
+    case 'AnyOff': return states.every((isHidden) => !isHidden);
+    case 'AllOff': return states.some((isHidden) => !isHidden);
+    default: return states.every((isHidden) => isHidden);
+  }
+}
+
+// Cuts marked-content sections and XObject draws that belong to hidden layers
+function stripHiddenContent(
+  doc: PDFDocument,
+  content: string,
+  resources: PDFDict | undefined,
+  hidden: Map<PDFRef, string>
+) {
+  const properties = resources?.lookupMaybe(PDFName.of('Properties'), PDFDict);
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  const isHiddenProperty = (name: string) =>
+    isHiddenContent(doc, properties?.get(PDFName.of(name.slice(1))), hidden);
+  const isHiddenXObject = (name: string) => {
+    const xObject = doc.context.lookup(xObjects?.get(PDFName.of(name.slice(1))));
+    return xObject instanceof PDFStream && isHiddenContent(doc, xObject.dict.get(PDFName.of('OC')), hidden);
+  };
+
+  const ranges: [number, number][] = [];
+  const stack: { hidden: boolean; start: number }[] = [];
+  for (const operation of parseContentStream(content)) {
+    const insideHidden = stack.some((entry) => entry.hidden);
+    if (operation.operator === 'BDC' || operation.operator === 'BMC') {
+      const [tag, property] = operation.operands;
+      stack.push({
+        hidden: operation.operator === 'BDC' && tag === '/OC' && !!property && isHiddenProperty(property),
+        start: operation.start,
+      });
+    } else if (operation.operator === 'EMC') {
+      const entry = stack.pop();
+      if (entry?.hidden && !stack.some((outer) => outer.hidden)) {
+        ranges.push([entry.start, operation.end]);
+      }
+    } else if (operation.operator === 'Do' && !insideHidden && isHiddenXObject(operation.operands[0])) {
+      ranges.push([operation.start, operation.end]);
+    }
+  }
+
+  if (ranges.length === 0) {
+    return { content, removed: 0 };
+  }
+
+  let stripped = '';
+  let position = 0;
+  for (const [start, end] of ranges) {
+    stripped += content.slice(position, start) + '\n';
+    position = end;
+  }
+  stripped += content.slice(position);
+  return { content: stripped, removed: ranges.length };
+}
+
+function removeHiddenLayers(doc: PDFDocument, hidden: Map<PDFRef, string>, report: SanitizeReport) {
+  report.hiddenLayers = Array.from(hidden.values());
+
+  if (hidden.size > 0) {
+    for (const page of doc.getPages()) {
+      const content = readContentStream(doc, page.node.get(PDFName.of('Contents')));
+      if (content === null) continue;
+      const result = stripHiddenContent(doc, content, page.node.Resources(), hidden);
+      if (result.removed > 0) {
+        setPageContent(doc, page, result.content);
+        report.hiddenContent += result.removed;
+      }
+    }
+
+    for (const [ref, object] of doc.context.enumerateIndirectObjects()) {
+      if (!(object instanceof PDFRawStream) || getName(object.dict.get(PDFName.of('Subtype'))) !== 'Form') {
+        continue;
+      }
+      const content = readContentStream(doc, object);
+      if (content === null) continue;
+      const resources = object.dict.lookupMaybe(PDFName.of('Resources'), PDFDict);
+      const result = stripHiddenContent(doc, content, resources, hidden);
+      if (result.removed > 0) {
+        setFormContent(doc, ref, result.content);
+        report.hiddenContent += result.removed;
+      }
+    }
+  }
+
+  pruneLayerLists(doc, hidden);
+}
+
+// Takes the removed layers out of the layer lists, so the remaining layers keep their names and default states
+function pruneLayerLists(doc: PDFDocument, hidden: Map<PDFRef, string>) {
+  const prune = (value: PDFObject | undefined) => {
+    const list = value instanceof PDFRef ? doc.context.lookup(value) : value;
+    if (!(list instanceof PDFArray)) return;
+    for (let i = list.size() - 1; i >= 0; i--) {
+      const item = list.get(i);
+      if (item instanceof PDFRef && hidden.has(item)) {
+        list.remove(i);
+      } else {
+        // /Order and /RBGroups nest further arrays
+        prune(item);
+      }
+    }
+  };
+
+  const properties = doc.catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+  if (!properties || hidden.size === 0) return;
+  prune(properties.get(PDFName.of('OCGs')));
+
+  const configs = [
+    properties.lookupMaybe(PDFName.of('D'), PDFDict),
+    ...(properties.lookupMaybe(PDFName.of('Configs'), PDFArray)?.asArray() || []).map((config) =>
+      doc.context.lookupMaybe(config, PDFDict)
+    ),
+  ];
+  for (const config of configs) {
+    if (!config) continue;
+    ['ON', 'OFF', 'Order', 'RBGroups', 'Locked'].forEach((key) => prune(config.get(PDFName.of(key))));
+    config.lookupMaybe(PDFName.of('AS'), PDFArray)?.asArray().forEach((usage) => {
+      prune(doc.context.lookupMaybe(usage, PDFDict)?.get(PDFName.of('OCGs')));
+    });
+  }
+}
+
+function removeAnnotations(
+  doc: PDFDocument,
+  types: Set<string>,
+  hidden: Map<PDFRef, string>,
+  report: SanitizeReport
+) {
+  for (const page of doc.getPages()) {
+    const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    if (!annots) continue;
+
+    const removed = new Set<PDFObject>();
+    for (const ref of annots.asArray()) {
+      const annot = doc.context.lookupMaybe(ref, PDFDict);
+      if (!annot) continue;
+      const subtype = getName(annot.get(PDFName.of('Subtype'))) || 'Unknown';
+
+      if (types.has(subtype) || isHiddenContent(doc, annot.get(PDFName.of('OC')), hidden)) {
+        removed.add(ref);
+        report.annotations[subtype] = (report.annotations[subtype] || 0) + 1;
+        if (subtype === 'FileAttachment') {
+          report.attachments.push(getAttachmentName(doc, annot.get(PDFName.of('FS'))));
+        }
+        // A comment's pop-up window goes with it
+        const popup = annot.get(PDFName.of('Popup'));
+        if (popup) removed.add(popup);
+      }
+    }
+
+    // Pop-ups whose parent comment was removed are useless on their own
+    for (const ref of annots.asArray()) {
+      const annot = doc.context.lookupMaybe(ref, PDFDict);
+      const parent = annot?.get(PDFName.of('Parent'));
+      if (getName(annot?.get(PDFName.of('Subtype'))) === 'Popup' && parent && removed.has(parent)) {
+        removed.add(ref);
+      }
+    }
+
+    if (removed.size > 0) {
+      page.node.set(PDFName.of('Annots'), doc.context.obj(annots.asArray().filter((ref) => !removed.has(ref))));
+    }
+  }
+}
+
+function removeThumbnails(doc: PDFDocument, report: SanitizeReport) {
+  for (const page of doc.getPages()) {
+    if (page.node.has(PDFName.of('Thumb'))) {
+      page.node.delete(PDFName.of('Thumb'));
+      report.thumbnails++;
+    }
+  }
+}
+
+// Every incremental update appends another cross-reference section and startxref
+function countPreviousRevisions(pdfBytes: Uint8Array) {
+  const text = Buffer.from(pdfBytes).toString('latin1');
+  const sections = text.match(/startxref/g)?.length || 1;
+  // Linearized files carry an extra first-page section that is not a revision
+  const linearized = /\/Linearized\s/.test(text.slice(0, 2048)) ? 1 : 0;
+  return Math.max(0, sections - 1 - linearized);
+}
+
+/**
+ * Removes information that should not leave the organisation with a document.
+ * The file is always rewritten from scratch, which drops the incremental-update
+ * history and any objects the removed content left unreferenced.
+ */
+export async function sanitizePdf(pdfDoc: PDFDocument, pdfBytes: Uint8Array, options: SanitizeOptions) {
+  const report: SanitizeReport = {
+    documentInfo: [],
+    xmpStreams: 0,
+    privateData: 0,
+    javascript: 0,
+    attachments: [],
+    hiddenLayers: [],
+    hiddenContent: 0,
+    formFields: 0,
+    annotations: {},
+    thumbnails: 0,
+    previousRevisions: countPreviousRevisions(pdfBytes),
+    unreferencedObjects: 0,
+    originalSize: pdfBytes.byteLength,
+    finalSize: 0,
+  };
+
+  // Hidden layers are resolved first because annotations can belong to them too
+  const hidden = options.hiddenLayers ? getHiddenLayers(pdfDoc) : new Map<PDFRef, string>();
+  if (options.hiddenLayers) removeHiddenLayers(pdfDoc, hidden, report);
+
+  const annotationTypes = new Set(options.annotationTypes);
+  if (options.forms) annotationTypes.add('Widget');
+  if (options.attachments) annotationTypes.add('FileAttachment');
+  removeAnnotations(pdfDoc, annotationTypes, hidden, report);
+
+  if (options.forms) removeForms(pdfDoc, report);
+  if (options.javascript) removeJavaScript(pdfDoc, report);
+  if (options.attachments) removeAttachments(pdfDoc, report);
+  if (options.thumbnails) removeThumbnails(pdfDoc, report);
+  if (options.metadata) removeDocumentMetadata(pdfDoc, report);
+
+  report.unreferencedObjects = removeUnreachableObjects(pdfDoc);
+
+  const bytes = await pdfDoc.save();
+  report.finalSize = bytes.byteLength;
+  return { bytes, report };
+}
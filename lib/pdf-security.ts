@@ -0,0 +1,97 @@
+// pdf-lib cannot read or write encrypted files, so the security handler comes
+// from the @cantoo/pdf-lib fork and every other operation keeps using pdf-lib
+import { PDFDocument as SecurePDFDocument } from '@cantoo/pdf-lib';
+import { LoadOptions, PDFDocument } from 'pdf-lib';
+
+export type EncryptionAlgorithm = 'AES-128' | 'AES-256';
+
+export interface EncryptOptions {
+  userPassword?: string;
+  ownerPassword?: string;
+  algorithm: EncryptionAlgorithm;
+  allowPrinting: boolean;
+  allowCopying: boolean;
+  allowEditing: boolean;
+}
+
+export class IncorrectPasswordError extends Error {
+  constructor(message = 'Incorrect password') {
+    super(message);
+    this.name = 'IncorrectPasswordError';
+  }
+}
+
+export class PasswordProtectedError extends Error {
+  constructor(fileName: string) {
+    super(`${fileName} is password-protected. Unlock it before continuing.`);
+    this.name = 'PasswordProtectedError';
+  }
+}
+
+/**
+ * Loads an uploaded PDF with pdf-lib. Encrypted files are rejected with a
+ * PasswordProtectedError instead of pdf-lib's generic encryption error so
+ * routes can tell the user what to do.
+ */
+export async function loadUploadedPdf(file: File, options: LoadOptions = {}): Promise<PDFDocument> {
+  const pdfBytes = await file.arrayBuffer();
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ...options, ignoreEncryption: true });
+  if (pdfDoc.isEncrypted) {
+    throw new PasswordProtectedError(file.name);
+  }
+  return pdfDoc;
+}
+
+export async function isPdfEncrypted(pdfBytes: ArrayBuffer | Uint8Array): Promise<boolean> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  return pdfDoc.isEncrypted;
+}
+
+export async function encryptPdf(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  options: EncryptOptions
+): Promise<Uint8Array> {
+  if (!options.userPassword && !options.ownerPassword) {
+    throw new Error('A user or owner password is required');
+  }
+
+  const pdfDoc = await SecurePDFDocument.load(pdfBytes, { updateMetadata: false });
+  pdfDoc.encrypt({
+    userPassword: options.userPassword || '',
+    // Without a separate owner password the user password also unlocks the permissions
+    ownerPassword: options.ownerPassword || options.userPassword,
+    algorithm: options.algorithm,
+    permissions: {
+      printing: options.allowPrinting ? 'highResolution' : false,
+      copying: options.allowCopying,
+      contentAccessibility: true,
+      modifying: options.allowEditing,
+      annotating: options.allowEditing,
+      fillingForms: options.allowEditing,
+      documentAssembly: options.allowEditing,
+    },
+  });
+
+  return pdfDoc.save({ useObjectStreams: false });
+}
+
+/**
+ * Removes encryption from a PDF using either its user or owner password. Files
+ * that only restrict permissions open with an empty password.
+ */
+export async function decryptPdf(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  password = ''
+): Promise<Uint8Array> {
+  let pdfDoc: SecurePDFDocument;
+  try {
+    pdfDoc = await SecurePDFDocument.load(pdfBytes, { password, updateMetadata: false });
+  } catch (error) {
+    if (error instanceof Error && /password/i.test(error.message)) {
+      throw new IncorrectPasswordError(password ? 'Incorrect password' : 'This PDF requires a password');
+    }
+    throw error;
+  }
+
+  return pdfDoc.save();
+}
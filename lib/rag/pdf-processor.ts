@@ -1,51 +1,48 @@
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import { Document } from "@langchain/core/documents";
+import { pdfjs } from "../pdf-worker";
+import { extractPageTexts } from "../ocr";
+import type { DocumentChunk } from "./types";
 
-// We'll load pdf.js dynamically to avoid SSR issues
-let pdfjsLib: any = null;
-
-async function loadPdfJs() {
-  console.log("Loading PDF.js library...");
-  if (!pdfjsLib) {
-    pdfjsLib = await import('pdfjs-dist');
-    if (typeof window !== 'undefined') {
-      pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
-    }
-    console.log("PDF.js library loaded successfully");
+// Index of the page containing a character offset, given each page's start offset
+function findPageIndex(pageStarts: number[], offset: number): number {
+  let low = 0;
+  let high = pageStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (pageStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
   }
-  return pdfjsLib;
+  return low;
 }
 
-export async function loadAndProcessPDF(file: File): Promise<string[]> {
-  console.log(`Processing PDF file: ${file.name} (${Math.round(file.size / 1024)}KB)`);
+/**
+ * Splits an uploaded PDF into chunks for the vector store. This runs on the
+ * server so that the stored chunks always come from the bytes the document
+ * is keyed by.
+ */
+export async function loadAndProcessPDF(pdfBytes: ArrayBuffer, fileName: string): Promise<DocumentChunk[]> {
+  console.log(`Processing PDF file: ${fileName} (${Math.round(pdfBytes.byteLength / 1024)}KB)`);
   
   try {
-    // Load PDF.js library
-    const pdfjs = await loadPdfJs();
-    
-    // Convert File to ArrayBuffer and then to Uint8Array
-    console.log("Converting file to Uint8Array...");
-    const arrayBuffer = await file.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-    
     // Load PDF document
     console.log("Loading PDF document...");
-    const pdf = await pdfjs.getDocument({ data: uint8Array }).promise;
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(pdfBytes),
+      useWorkerFetch: false,
+      isEvalSupported: false,
+      useSystemFonts: true
+    }).promise;
     console.log(`PDF loaded successfully. Total pages: ${pdf.numPages}`);
     
-    // Extract text from each page
+    // Extract text from each page; scanned pages have no text layer, so they are read with OCR
     console.log("Extracting text from pages...");
-    const textContent: string[] = [];
-    for (let i = 1; i <= pdf.numPages; i++) {
-      console.log(`Processing page ${i}/${pdf.numPages}...`);
-      const page = await pdf.getPage(i);
-      const content = await page.getTextContent();
-      const text = content.items
-        .map((item: any) => item.str)
-        .join(' ');
-      textContent.push(text);
-      console.log(`Page ${i}: extracted ${text.length} characters`);
-    }
+    const pages = await extractPageTexts(pdf);
+    await pdf.destroy();
+    const textContent = pages.map(({ pageNumber, text, ocr }) => {
+      console.log(`Page ${pageNumber}: ${ocr ? 'recognised' : 'extracted'} ${text.length} characters`);
+      return text;
+    });
     
     // Create text splitter
     console.log("Creating text splitter...");
@@ -54,8 +51,16 @@ export async function loadAndProcessPDF(file: File): Promise<string[]> {
       chunkOverlap: 200,
     });
     
-    // Combine all text
-    const combinedText = textContent.join(' ');
+    // Combine all text, remembering where each page starts. Whitespace is
+    // collapsed so every chunk is an exact slice of the combined text and its
+    // offsets, and therefore its pages, can be found
+    const pageStarts: number[] = [];
+    let combinedText = '';
+    textContent.forEach((text, i) => {
+      if (i > 0) combinedText += ' ';
+      pageStarts.push(combinedText.length);
+      combinedText += text.replace(/\s+/g, ' ').trim();
+    });
     console.log(`Total text extracted: ${combinedText.length} characters`);
     
     // Split the text into chunks
@@ -63,28 +68,37 @@ export async function loadAndProcessPDF(file: File): Promise<string[]> {
     const chunks = await textSplitter.createDocuments([combinedText]);
     console.log(`Created ${chunks.length} chunks`);
     
-    // Log chunk sizes for debugging
-    chunks.forEach((chunk, i) => {
-      console.log(`Chunk ${i + 1}: ${chunk.pageContent.length} characters`);
+    // Chunks overlap, so each is searched for from just after the previous one
+    let searchFrom = 0;
+    return chunks.map((chunk, i) => {
+      const text = chunk.pageContent;
+      const found = combinedText.indexOf(text, searchFrom);
+      const charStart = found === -1 ? searchFrom : found;
+      const charEnd = Math.min(charStart + text.length, combinedText.length);
+      searchFrom = charStart + 1;
+
+      const pageStart = findPageIndex(pageStarts, charStart) + 1;
+      const pageEnd = findPageIndex(pageStarts, Math.max(charStart, charEnd - 1)) + 1;
+      console.log(`Chunk ${i + 1}: ${text.length} characters, pages ${pageStart}-${pageEnd}`);
+
+      return {
+        text,
+        metadata: { source: fileName, pageStart, pageEnd, charStart, charEnd },
+      };
     });
-    
-    // Return chunks
-    return chunks.map(chunk => chunk.pageContent);
   } catch (error: any) {
     console.error('Error processing PDF:', {
       error: error.message,
       stack: error.stack,
-      fileName: file.name,
-      fileSize: file.size
+      fileName,
+      fileSize: pdfBytes.byteLength
     });
     
     // Provide more specific error messages
     if (error.name === 'InvalidPDFException') {
       throw new Error('The file appears to be corrupted or is not a valid PDF');
-    } else if (error.message.includes('worker')) {
-      throw new Error('PDF worker failed to load. Please check your internet connection');
     } else {
       throw new Error(`Failed to process PDF file: ${error.message}`);
     }
   }
-} 
\ No newline at end of file
+}
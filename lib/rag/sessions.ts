@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import type { ChatReportMessage } from "../chat-report";
+
+// Messages keep their times and excerpts so reports are built from what the server answered
+export type ChatHistoryMessage = ChatReportMessage;
+
+/**
+ * One chat panel's state on the server. Embeddings are shared between
+ * sessions by content hash, but a session only ever searches the documents
+ * it added and only sees its own history.
+ */
+export interface ChatSession {
+  id: string;
+  // Random ID kept in an httpOnly cookie; only that browser can use the session
+  ownerId: string;
+  createdAt: number;
+  lastActiveAt: number;
+  documentIds: Set<string>;
+  history: ChatHistoryMessage[];
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  documentCount: number;
+  messageCount: number;
+}
+
+// httpOnly cookie holding the browser's owner ID, so a leaked session ID is not enough to use a session
+export const SESSION_OWNER_COOKIE = 'chat-session-owner';
+
+// Sessions end after this long without a request
+const SESSION_TTL_MS = (Number(process.env.CHAT_SESSION_TTL_MINUTES) || 60) * 60 * 1000;
+
+// Prompts only include the latest messages so they stay short
+const PROMPT_HISTORY_MESSAGES = 40;
+
+// Older messages are dropped so memory stays bounded in long sessions
+const MAX_HISTORY_MESSAGES = 1000;
+
+const sessions = new Map<string, ChatSession>();
+
+// Expired sessions are dropped whenever sessions are looked up, so no timer is needed
+function expireSessions(now = Date.now()) {
+  for (const session of Array.from(sessions.values())) {
+    if (now - session.lastActiveAt > SESSION_TTL_MS) {
+      sessions.delete(session.id);
+      console.log(`Chat session ${session.id} expired`);
+    }
+  }
+}
+
+export function createOwnerId() {
+  return randomUUID();
+}
+
+export function createSession(ownerId: string): ChatSession {
+  expireSessions();
+  const now = Date.now();
+  const session: ChatSession = {
+    id: randomUUID(),
+    ownerId,
+    createdAt: now,
+    lastActiveAt: now,
+    documentIds: new Set(),
+    history: [],
+  };
+  sessions.set(session.id, session);
+  console.log(`Chat session ${session.id} created`);
+  return session;
+}
+
+// The owner's live session with this ID, marked as active; null when unknown, expired or someone else's
+export function getSession(sessionId: unknown, ownerId: string | undefined): ChatSession | null {
+  expireSessions();
+  if (typeof sessionId !== 'string') return null;
+  const session = sessions.get(sessionId);
+  if (!session || !ownerId || session.ownerId !== ownerId) return null;
+  session.lastActiveAt = Date.now();
+  return session;
+}
+
+// Every live session, or only the owner's when an owner is given
+export function listSessions(ownerId?: string): ChatSession[] {
+  expireSessions();
+  const all = Array.from(sessions.values());
+  return ownerId === undefined ? all : all.filter((session) => session.ownerId === ownerId);
+}
+
+export function deleteSession(sessionId: string, ownerId: string | undefined): boolean {
+  return !!getSession(sessionId, ownerId) && sessions.delete(sessionId);
+}
+
+export function addToHistory(session: ChatSession, ...messages: ChatHistoryMessage[]) {
+  session.history.push(...messages);
+  session.history.splice(0, Math.max(0, session.history.length - MAX_HISTORY_MESSAGES));
+}
+
+export function getPromptHistory(session: ChatSession) {
+  return session.history.slice(-PROMPT_HISTORY_MESSAGES);
+}
+
+// Whether any live session still has the document in its library
+export function isDocumentInUse(documentId: string) {
+  return listSessions().some((session) => session.documentIds.has(documentId));
+}
+
+export function toSessionSummary(session: ChatSession): ChatSessionSummary {
+  return {
+    id: session.id,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastActiveAt: new Date(session.lastActiveAt).toISOString(),
+    expiresAt: new Date(session.lastActiveAt + SESSION_TTL_MS).toISOString(),
+    documentCount: session.documentIds.size,
+    messageCount: session.history.length,
+  };
+}
@@ -0,0 +1,70 @@
+import { ChromaClient, Collection } from 'chromadb';
+import type { ChunkMetadata, DocumentChunk } from '../types';
+import { StoredChunk, VectorStoreBackend } from './types';
+
+const COLLECTION_NAME = 'pdfgod-chunks';
+
+/**
+ * Keeps chunks in a Chroma collection, for example a local instance started
+ * with `chroma run`. Every chunk carries its document ID as metadata so
+ * searches and removals can be limited to documents.
+ */
+export class ChromaVectorStore implements VectorStoreBackend {
+  private collection: Promise<Collection> | null = null;
+
+  constructor(private readonly url: string) {}
+
+  private getCollection() {
+    this.collection ??= new ChromaClient({ path: this.url }).getOrCreateCollection({
+      name: COLLECTION_NAME,
+      metadata: { 'hnsw:space': 'cosine' },
+      // Embeddings always come from Ollama, so Chroma never has to compute any
+      embeddingFunction: {
+        generate: async () => {
+          throw new Error('Chroma was asked to embed text; embeddings must be passed in');
+        },
+      },
+    });
+    return this.collection;
+  }
+
+  async hasDocument(documentId: string) {
+    const collection = await this.getCollection();
+    const { ids } = await collection.get({ where: { documentId }, limit: 1, include: [] });
+    return ids.length > 0;
+  }
+
+  async addDocument(documentId: string, chunks: StoredChunk[]) {
+    if (chunks.length === 0) return;
+    const collection = await this.getCollection();
+    await collection.add({
+      ids: chunks.map((_, i) => `${documentId}-${i}`),
+      embeddings: chunks.map((chunk) => chunk.embedding),
+      documents: chunks.map((chunk) => chunk.text),
+      metadatas: chunks.map(({ metadata }) => ({ ...metadata, documentId })),
+    });
+  }
+
+  async search(embedding: number[], k: number, documentIds?: string[]): Promise<DocumentChunk[]> {
+    const collection = await this.getCollection();
+    const results = await collection.query({
+      queryEmbeddings: [embedding],
+      nResults: k,
+      where: documentIds ? { documentId: { $in: documentIds } } : undefined,
+    });
+    return results.documents[0].map((text, i) => ({
+      text: text || '',
+      metadata: results.metadatas[0][i] as unknown as ChunkMetadata,
+    }));
+  }
+
+  async removeDocument(documentId: string) {
+    const collection = await this.getCollection();
+    await collection.delete({ where: { documentId } });
+  }
+
+  async clear() {
+    await new ChromaClient({ path: this.url }).deleteCollection({ name: COLLECTION_NAME });
+    this.collection = null;
+  }
+}
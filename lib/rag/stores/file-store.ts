@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DocumentChunk } from '../types';
+import { StoredChunk, VectorStoreBackend, isValidDocumentId } from './types';
+
+interface IndexedDocument {
+  chunks: DocumentChunk[];
+  // Unit-length embeddings, one after another, so cosine similarity is a dot product
+  vectors: Float32Array;
+  dimensions: number;
+}
+
+const normalize = (vector: number[]) => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / length);
+};
+
+/**
+ * Keeps each document as two files: `<id>.json` with the chunk text and
+ * metadata, and `<id>.vectors` with its embeddings as raw 32-bit floats.
+ * Everything is loaded into memory on first use and searched exhaustively,
+ * which is fast enough for the few thousand chunks a local library holds.
+ */
+export class FileVectorStore implements VectorStoreBackend {
+  private documents: Map<string, IndexedDocument> | null = null;
+  private loading: Promise<Map<string, IndexedDocument>> | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  private paths(documentId: string) {
+    if (!isValidDocumentId(documentId)) {
+      throw new Error(`Invalid document ID: ${documentId}`);
+    }
+    const base = path.join(this.directory, documentId);
+    return { chunks: `${base}.json`, vectors: `${base}.vectors` };
+  }
+
+  private async load() {
+    if (this.documents) return this.documents;
+    this.loading ??= (async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      const documents = new Map<string, IndexedDocument>();
+      for (const name of await fs.readdir(this.directory)) {
+        // The chunk file is written last, so a document without one is incomplete
+        if (!name.endsWith('.json')) continue;
+        const documentId = name.slice(0, -'.json'.length);
+        try {
+          const files = this.paths(documentId);
+          const { chunks, dimensions } = JSON.parse(await fs.readFile(files.chunks, 'utf8'));
+          const bytes = await fs.readFile(files.vectors);
+          const vectors = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4).slice();
+          if (vectors.length !== chunks.length * dimensions) {
+            throw new Error('embeddings do not match the chunks');
+          }
+          documents.set(documentId, { chunks, vectors, dimensions });
+        } catch (error: any) {
+          console.error(`Skipping unreadable vector store entry ${documentId}:`, error.message);
+        }
+      }
+      console.log(`Loaded ${documents.size} documents from ${this.directory}`);
+      this.documents = documents;
+      return documents;
+    })();
+    return this.loading;
+  }
+
+  // Written to a temporary name first so a crash never leaves half a file
+  private async writeFile(file: string, data: string | Uint8Array) {
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, file);
+  }
+
+  async hasDocument(documentId: string) {
+    return (await this.load()).has(documentId);
+  }
+
+  async addDocument(documentId: string, chunks: StoredChunk[]) {
+    const documents = await this.load();
+    const files = this.paths(documentId);
+    const dimensions = chunks[0]?.embedding.length ?? 0;
+    if (chunks.some((chunk) => chunk.embedding.length !== dimensions)) {
+      throw new Error('All embeddings in a document must have the same length');
+    }
+
+    const vectors = new Float32Array(chunks.length * dimensions);
+    chunks.forEach((chunk, i) => vectors.set(normalize(chunk.embedding), i * dimensions));
+    const stored = chunks.map(({ text, metadata }) => ({ text, metadata: { ...metadata, documentId } }));
+
+    await this.writeFile(files.vectors, new Uint8Array(vectors.buffer));
+    await this.writeFile(files.chunks, JSON.stringify({ dimensions, chunks: stored }));
+    documents.set(documentId, { chunks: stored, vectors, dimensions });
+  }
+
+  async search(embedding: number[], k: number, documentIds?: string[]) {
+    const documents = await this.load();
+    const query = normalize(embedding);
+    const scored: { chunk: DocumentChunk; score: number }[] = [];
+
+    for (const [documentId, { chunks, vectors, dimensions }] of Array.from(documents)) {
+      if (documentIds && !documentIds.includes(documentId)) continue;
+      if (dimensions !== query.length) continue;
+      chunks.forEach((chunk, i) => {
+        let score = 0;
+        for (let d = 0; d < dimensions; d++) score += vectors[i * dimensions + d] * query[d];
+        scored.push({ chunk, score });
+      });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(({ chunk }) => chunk);
+  }
+
+  async removeDocument(documentId: string) {
+    const documents = await this.load();
+    const files = this.paths(documentId);
+    // The chunk file goes first so a partial removal is treated as incomplete
+    await fs.rm(files.chunks, { force: true });
+    await fs.rm(files.vectors, { force: true });
+    documents.delete(documentId);
+  }
+
+  async clear() {
+    const documents = await this.load();
+    for (const documentId of Array.from(documents.keys())) {
+      await this.removeDocument(documentId);
+    }
+  }
+}
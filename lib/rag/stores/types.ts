@@ -0,0 +1,21 @@
+import type { DocumentChunk } from '../types';
+
+export interface StoredChunk extends DocumentChunk {
+  embedding: number[];
+}
+
+/**
+ * Where chunk embeddings are kept. Embeddings are computed before they
+ * reach the store, so backends only store and compare vectors.
+ */
+export interface VectorStoreBackend {
+  hasDocument(documentId: string): Promise<boolean>;
+  addDocument(documentId: string, chunks: StoredChunk[]): Promise<void>;
+  // The `k` chunks closest to the embedding, optionally only from some documents
+  search(embedding: number[], k: number, documentIds?: string[]): Promise<DocumentChunk[]>;
+  removeDocument(documentId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Document IDs become file names and database keys, so they are kept plain
+export const isValidDocumentId = (documentId: string) => /^[\w-]{1,128}$/.test(documentId);
@@ -0,0 +1,22 @@
+// Where a chunk came from, so answers can cite it and readers can check it
+export interface ChunkMetadata {
+  // Set when the chunk is stored; identifies the upload it belongs to
+  documentId?: string;
+  // File name of the source document
+  source: string;
+  // First and last page the chunk covers, 1-based
+  pageStart: number;
+  pageEnd: number;
+  // Offsets into the document's extracted text, end exclusive
+  charStart: number;
+  charEnd: number;
+}
+
+export interface DocumentChunk {
+  text: string;
+  metadata: ChunkMetadata;
+}
+
+// How a chunk is cited, matching the [p. N] format answers are asked to use
+export const formatPageRange = ({ pageStart, pageEnd }: Pick<ChunkMetadata, 'pageStart' | 'pageEnd'>) =>
+  pageStart === pageEnd ? `p. ${pageStart}` : `pp. ${pageStart}-${pageEnd}`;
@@ -1,22 +1,47 @@
+import path from "path";
 import { OllamaEmbeddings } from "@langchain/community/embeddings/ollama";
-import { MemoryVectorStore } from "langchain/vectorstores/memory";
-import { Document } from "langchain/document";
 import { OllamaService } from "../services/ollama";
+import type { DocumentChunk } from "./types";
+import type { VectorStoreBackend } from "./stores/types";
+import { FileVectorStore } from "./stores/file-store";
+import { ChromaVectorStore } from "./stores/chroma-store";
 
 // Global state for vector store
-let vectorStore: MemoryVectorStore | null = null;
+let vectorStore: VectorStoreBackend | null = null;
 let embeddings: OllamaEmbeddings | null = null;
-let storedDocuments: Document[] = [];
+
+/**
+ * The backend is chosen with RAG_VECTOR_STORE: `file` (the default) keeps
+ * embeddings in RAG_STORE_DIR so they survive restarts, `chroma` uses the
+ * Chroma server at CHROMA_URL.
+ */
+function createBackend(): VectorStoreBackend {
+  const backend = process.env.RAG_VECTOR_STORE || 'file';
+  switch (backend) {
+    case 'file': {
+      const directory = process.env.RAG_STORE_DIR || path.join(process.cwd(), '.data', 'vector-store');
+      console.log('Using file vector store in', directory);
+      return new FileVectorStore(directory);
+    }
+    case 'chroma': {
+      const url = process.env.CHROMA_URL || 'http://127.0.0.1:8000';
+      console.log('Using Chroma vector store at', url);
+      return new ChromaVectorStore(url);
+    }
+    default:
+      throw new Error(`Unknown vector store backend: ${backend}`);
+  }
+}
 
 export async function initializeVectorStore() {
   console.log('=== VECTOR STORE INITIALIZATION START ===');
-  
+
   try {
     if (vectorStore && embeddings) {
-      console.log('Vector store already initialized with', storedDocuments.length, 'documents');
+      console.log('Vector store already initialized');
       return vectorStore;
     }
-    
+
     console.log('Connecting to Ollama service...');
     const ollama = OllamaService.getInstance();
     const status = await ollama.checkConnection();
@@ -24,24 +49,17 @@ export async function initializeVectorStore() {
       throw new Error(status.error || 'Failed to connect to Ollama');
     }
     console.log('Successfully connected to Ollama');
-    
+
     const baseUrl = process.env.NEXT_PUBLIC_OLLAMA_API_URL || 'http://127.0.0.1:11434';
     console.log('Using Ollama base URL:', baseUrl);
-    
+
     embeddings = new OllamaEmbeddings({
       model: "llama3.2",
       baseUrl: baseUrl
     });
-    
-    console.log('Creating new vector store instance...');
-    vectorStore = new MemoryVectorStore(embeddings);
-    
-    // If we have stored documents, add them back
-    if (storedDocuments.length > 0) {
-      await vectorStore.addDocuments(storedDocuments);
-      console.log('Restored', storedDocuments.length, 'documents to vector store');
-    }
-    
+
+    vectorStore = createBackend();
+
     console.log('Vector store initialized successfully');
     console.log('=== VECTOR STORE INITIALIZATION COMPLETE ===');
     return vectorStore;
@@ -55,35 +73,55 @@ export async function initializeVectorStore() {
   }
 }
 
-export async function addDocumentsToStore(documents: string[]) {
+async function getStore() {
+  if (!vectorStore || !embeddings) {
+    console.log('Vector store not initialized, initializing now...');
+    await initializeVectorStore();
+  }
+
+  if (!vectorStore || !embeddings) {
+    throw new Error('Failed to initialize vector store');
+  }
+  return { store: vectorStore, embeddings };
+}
+
+// Documents are keyed by a hash of the PDF, so an indexed file can be reused as is
+export async function hasDocumentInStore(documentId: string): Promise<boolean> {
+  const { store } = await getStore();
+  return store.hasDocument(documentId);
+}
+
+/**
+ * Embeds and stores a document's chunks. Returns false without embedding
+ * anything when the document is already in the store.
+ */
+export async function addDocumentsToStore(documentId: string, documents: DocumentChunk[]): Promise<boolean> {
   console.log('=== DOCUMENT EMBEDDING START ===');
-  console.log(`Processing ${documents.length} documents for embedding`);
-  
+  console.log(`Processing ${documents.length} documents for embedding as ${documentId}`);
+
   try {
-    if (!vectorStore || !embeddings) {
-      await initializeVectorStore();
-    }
-    
-    if (!vectorStore || !embeddings) {
-      throw new Error('Vector store initialization failed');
+    const { store, embeddings } = await getStore();
+
+    if (await store.hasDocument(documentId)) {
+      console.log('Document already indexed, skipping embedding');
+      console.log('=== DOCUMENT EMBEDDING COMPLETE ===');
+      return false;
     }
-    
+
     if (documents.length > 0) {
-      console.log('Sample text for embedding:', documents[0].slice(0, 100));
+      console.log('Sample text for embedding:', documents[0].text.slice(0, 100));
     }
-    
+
     console.log('Generating embeddings via Ollama...');
-    const docs = documents.map((text, index) => new Document({
-      pageContent: text,
-      metadata: { id: `doc-${storedDocuments.length + index}` }
-    }));
-    
-    await vectorStore.addDocuments(docs);
-    storedDocuments.push(...docs);
-    
+    const vectors = await embeddings.embedDocuments(documents.map(({ text }) => text));
+    await store.addDocument(documentId, documents.map((document, index) => ({
+      ...document,
+      embedding: vectors[index]
+    })));
+
     console.log('Successfully generated embeddings');
-    console.log('Total documents in store:', storedDocuments.length);
     console.log('=== DOCUMENT EMBEDDING COMPLETE ===');
+    return true;
   } catch (error: any) {
     console.error('=== DOCUMENT EMBEDDING ERROR ===');
     console.error('Error details:', {
@@ -94,36 +132,30 @@ export async function addDocumentsToStore(documents: string[]) {
   }
 }
 
-export async function searchSimilarChunks(query: string): Promise<string[]> {
+/**
+ * The `k` chunks most similar to the query. When `documentIds` is given only
+ * chunks from those documents are searched.
+ */
+export async function searchSimilarChunks(
+  query: string,
+  { documentIds, k = 3 }: { documentIds?: string[]; k?: number } = {}
+): Promise<DocumentChunk[]> {
   console.log('=== SIMILARITY SEARCH START ===');
-  console.log(`Searching for documents similar to query: "${query}"`);
-  
+  console.log(`Searching for documents similar to query: "${query}"`, documentIds ? `in ${documentIds.join(', ')}` : '');
+
   try {
-    if (!vectorStore || !embeddings) {
-      console.log('Vector store not initialized, initializing now...');
-      await initializeVectorStore();
-    }
-    
-    if (!vectorStore || !embeddings) {
-      throw new Error('Failed to initialize vector store');
-    }
-    
-    if (storedDocuments.length === 0) {
-      console.log('No documents in store');
-      return [];
-    }
-    
-    console.log('Total documents to search:', storedDocuments.length);
+    const { store, embeddings } = await getStore();
+
     console.log('Generating query embedding...');
-    const results = await vectorStore.similaritySearch(query, 3);
+    const results = await store.search(await embeddings.embedQuery(query), k, documentIds);
     console.log(`Found ${results.length} similar documents`);
-    
+
     if (results.length > 0) {
-      console.log('Sample of first result:', results[0].pageContent.slice(0, 100));
+      console.log('Sample of first result:', results[0].text.slice(0, 100));
     }
-    
+
     console.log('=== SIMILARITY SEARCH COMPLETE ===');
-    return results.map(doc => doc.pageContent);
+    return results;
   } catch (error: any) {
     console.error('=== SIMILARITY SEARCH ERROR ===');
     console.error('Error details:', {
@@ -134,9 +166,15 @@ export async function searchSimilarChunks(query: string): Promise<string[]> {
   }
 }
 
-export function clearVectorStore() {
-  vectorStore = null;
-  embeddings = null;
-  storedDocuments = [];
+// Drops one document's chunks and embeddings, leaving the others searchable
+export async function removeDocumentFromStore(documentId: string) {
+  const { store } = await getStore();
+  await store.removeDocument(documentId);
+  console.log(`Removed ${documentId} from vector store`);
+}
+
+export async function clearVectorStore() {
+  const { store } = await getStore();
+  await store.clear();
   console.log('Vector store cleared');
-} 
\ No newline at end of file
+}
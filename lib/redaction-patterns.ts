@@ -0,0 +1,52 @@
+export interface RedactionPreset {
+  id: string;
+  label: string;
+  pattern: string;
+}
+
+// Common identifiers people need to remove before sharing a document
+export const REDACTION_PRESETS: RedactionPreset[] = [
+  { id: 'ssn', label: 'US Social Security numbers', pattern: '\\b\\d{3}-\\d{2}-\\d{4}\\b' },
+  { id: 'email', label: 'Email addresses', pattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}' },
+  {
+    id: 'phone',
+    label: 'Phone numbers',
+    pattern: '(?:\\+?\\d{1,3}[ .-]?)?(?:\\(\\d{3}\\)|\\b\\d{3})[ .-]?\\d{3}[ .-]?\\d{4}\\b',
+  },
+  { id: 'card', label: 'Credit card numbers', pattern: '\\b(?:\\d[ -]?){12,15}\\d\\b' },
+];
+
+export interface RedactionSearch {
+  // Literal words or phrases
+  terms: string[];
+  presets: string[];
+  regex: string;
+  caseSensitive: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Turns a search into global regular expressions. Throws a SyntaxError when
+ * the custom expression does not compile.
+ */
+export function buildRedactionPatterns(search: RedactionSearch): RegExp[] {
+  const flags = search.caseSensitive ? 'g' : 'gi';
+  const patterns = search.terms
+    .map((term) => term.trim())
+    .filter(Boolean)
+    // Runs of whitespace in a phrase also match line breaks between text items
+    .map((term) => new RegExp(escapeRegExp(term).replace(/\s+/g, '\\s+'), flags));
+
+  for (const preset of REDACTION_PRESETS) {
+    if (search.presets.includes(preset.id)) {
+      patterns.push(new RegExp(preset.pattern, 'g'));
+    }
+  }
+
+  if (search.regex.trim()) {
+    patterns.push(new RegExp(search.regex.trim(), flags));
+  }
+
+  return patterns;
+}
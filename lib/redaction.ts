@@ -0,0 +1,1024 @@
+import { runInNewContext } from 'vm';
+import { deflateSync } from 'zlib';
+import { Encodings, Font, FontNames, type EncodingType } from '@pdf-lib/standard-fonts';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import type { PDFDocumentProxy, PageViewport } from 'pdfjs-dist';
+import {
+  copyFormWithContent,
+  decodeStringOperand,
+  parseArrayOperand,
+  parseContentStream,
+  readContentStream,
+  setPageContent,
+} from './content-stream';
+import { DecodedImage, decodeImagePixels, removeUnreachableObjects } from './pdf-optimizer';
+import { PositionedTextItem, getPositionedTextItems } from './text-items';
+
+// A rectangle on the rendered page, as fractions of its width and height from the top-left corner
+export interface RedactionArea {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionMatch {
+  id: string;
+  page: number;
+  text: string;
+  areas: RedactionArea[];
+}
+
+export class RedactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedactionError';
+  }
+}
+
+type Matrix = number[];
+
+// Rectangle in a page's default user space
+interface Rect {
+  left: number;
+  bottom: number;
+  right: number;
+  top: number;
+}
+
+interface FontMetrics {
+  bytesPerCode: 1 | 2;
+  // Advance width in text space for a font size of 1
+  width: (code: number) => number;
+  // Set when glyphs in this font cannot be placed, so its text cannot be redacted
+  unsupported?: string;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+  font: FontMetrics;
+  fontSize: number;
+}
+
+interface RedactionContext {
+  doc: PDFDocument;
+  rects: Rect[];
+  fonts: Map<PDFDict, FontMetrics>;
+}
+
+// A string stored outside the page content, such as a bookmark title
+interface DocumentText {
+  location: string;
+  text: string;
+  replace: (text: string) => void;
+}
+
+interface ContentEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Forms nested deeper than this are left alone rather than risking a reference cycle
+const MAX_FORM_DEPTH = 12;
+
+// Unknown glyphs are assumed to be half an em wide
+const FALLBACK_FONT: FontMetrics = { bytesPerCode: 1, width: () => 0.5 };
+
+// Share of a character's width added on both sides of a search hit, so that
+// estimated glyph positions err towards removing too much rather than too little
+const MATCH_PADDING = 0.35;
+
+// A custom expression can backtrack for minutes on unlucky text, so each search is stopped after this long
+const MATCH_TIMEOUT_MS = 2000;
+
+// What search hits in document properties, bookmarks and tags are replaced with
+const REDACTED_TEXT = '[redacted]';
+
+const getName = (value: PDFObject | undefined) =>
+  value instanceof PDFName ? value.decodeText() : undefined;
+
+const getNumber = (value: PDFObject | undefined) =>
+  value instanceof PDFNumber ? value.asNumber() : undefined;
+
+const getText = (value: PDFObject | undefined) =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+const transformPoint = (m: Matrix, x: number, y: number) => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+
+function invert(m: Matrix): Matrix | null {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (!det) return null;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
+function boundsOf(points: number[][]): Rect {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  return { left: Math.min(...xs), bottom: Math.min(...ys), right: Math.max(...xs), top: Math.max(...ys) };
+}
+
+// Bounds of the unit square mapped through a matrix, which is where images land
+const unitSquareBounds = (m: Matrix) =>
+  boundsOf([transformPoint(m, 0, 0), transformPoint(m, 1, 0), transformPoint(m, 0, 1), transformPoint(m, 1, 1)]);
+
+const intersects = (a: Rect, b: Rect) => a.left < b.right && b.left < a.right && a.bottom < b.top && b.bottom < a.top;
+
+const containsPoint = (rect: Rect, x: number, y: number) =>
+  x >= rect.left && x <= rect.right && y >= rect.bottom && y <= rect.top;
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+function readMatrix(operands: string[]): Matrix | null {
+  const values = operands.slice(-6).map(Number);
+  return values.length === 6 && values.every(isFinite) ? values : null;
+}
+
+// Code to glyph name for the built-in encodings of the standard 14 fonts
+const encodingCache = new Map<EncodingType, Map<number, string>>();
+function getEncodingNames(encoding: EncodingType) {
+  let names = encodingCache.get(encoding);
+  if (!names) {
+    names = new Map();
+    for (const codePoint of encoding.supportedCodePoints) {
+      const { code, name } = encoding.encodeUnicodeCodePoint(codePoint);
+      if (!names.has(code)) names.set(code, name);
+    }
+    encodingCache.set(encoding, names);
+  }
+  return names;
+}
+
+// Non-embedded fonts without /Widths are measured with the closest standard font
+function getStandardFont(baseFont: string) {
+  const name = baseFont.replace(/^[A-Z]{6}\+/, '');
+  if ((Object.values(FontNames) as string[]).includes(name)) {
+    return Font.load(name as FontNames);
+  }
+  if (/symbol/i.test(name)) return Font.load(FontNames.Symbol);
+  if (/dingbat/i.test(name)) return Font.load(FontNames.ZapfDingbats);
+
+  const bold = /bold|black|heavy/i.test(name);
+  const italic = /italic|oblique/i.test(name);
+  if (/times|georgia|garamond/i.test(name)) {
+    const style = bold && italic ? 'BoldItalic' : bold ? 'Bold' : italic ? 'Italic' : 'Roman';
+    return Font.load(`Times-${style}` as FontNames);
+  }
+  const family = /courier|mono/i.test(name) ? 'Courier' : 'Helvetica';
+  const style = bold && italic ? '-BoldOblique' : bold ? '-Bold' : italic ? '-Oblique' : '';
+  return Font.load(`${family}${style}` as FontNames);
+}
+
+function loadFontMetrics(doc: PDFDocument, font: PDFDict): FontMetrics {
+  const subtype = getName(font.get(PDFName.of('Subtype')));
+
+  // Composite fonts can only be measured when codes are two-byte CIDs
+  // written left to right, which is what Identity-H gives. Other CMaps map
+  // codes of varying length to CIDs, and vertical ones advance down the page.
+  if (subtype === 'Type0') {
+    const encoding = getName(font.lookup(PDFName.of('Encoding')));
+    if (encoding !== 'Identity-H') {
+      const name = getName(font.get(PDFName.of('BaseFont'))) || 'A composite font';
+      return {
+        ...FALLBACK_FONT,
+        unsupported: `${name} uses ${encoding ? `the ${encoding} CMap` : 'an embedded CMap'}, which cannot be redacted.`,
+      };
+    }
+
+    const descendants = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray);
+    const descendant = descendants && doc.context.lookupMaybe(descendants.get(0), PDFDict);
+    const defaultWidth = getNumber(descendant?.lookup(PDFName.of('DW'))) ?? 1000;
+    const widths = new Map<number, number>();
+    const entries = descendant?.lookupMaybe(PDFName.of('W'), PDFArray)?.asArray() || [];
+    for (let i = 0; i + 1 < entries.length; ) {
+      const first = getNumber(doc.context.lookup(entries[i])) ?? 0;
+      const next = doc.context.lookup(entries[i + 1]);
+      if (next instanceof PDFArray) {
+        next.asArray().forEach((width, j) => widths.set(first + j, getNumber(doc.context.lookup(width)) ?? defaultWidth));
+        i += 2;
+      } else {
+        const last = Math.min(getNumber(next) ?? first, first + 0xffff);
+        const width = getNumber(doc.context.lookup(entries[i + 2])) ?? defaultWidth;
+        for (let code = first; code <= last; code++) widths.set(code, width);
+        i += 3;
+      }
+    }
+    return { bytesPerCode: 2, width: (code) => (widths.get(code) ?? defaultWidth) / 1000 };
+  }
+
+  const fontMatrix = font.lookupMaybe(PDFName.of('FontMatrix'), PDFArray);
+  const scale = subtype === 'Type3' ? getNumber(fontMatrix?.lookup(0)) ?? 0.001 : 0.001;
+  const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  const missingWidth = getNumber(descriptor?.lookup(PDFName.of('MissingWidth')));
+
+  const widths = font.lookupMaybe(PDFName.of('Widths'), PDFArray);
+  if (widths) {
+    const firstChar = getNumber(font.lookup(PDFName.of('FirstChar'))) ?? 0;
+    return {
+      bytesPerCode: 1,
+      width: (code) => {
+        const index = code - firstChar;
+        const width = index >= 0 && index < widths.size() ? getNumber(widths.lookup(index)) : undefined;
+        return (width ?? missingWidth ?? 500) * scale;
+      },
+    };
+  }
+
+  const standardFont = getStandardFont(getName(font.get(PDFName.of('BaseFont'))) || 'Helvetica');
+  const baseEncoding =
+    standardFont.FontName === 'Symbol' ? Encodings.Symbol
+    : standardFont.FontName === 'ZapfDingbats' ? Encodings.ZapfDingbats
+    : Encodings.WinAnsi;
+  const glyphNames = new Map(getEncodingNames(baseEncoding));
+
+  // /Encoding is either a base encoding name or a dictionary with /Differences
+  const encoding = doc.context.lookup(font.get(PDFName.of('Encoding')));
+  const differences = encoding instanceof PDFDict ? encoding.lookupMaybe(PDFName.of('Differences'), PDFArray) : undefined;
+  let code = 0;
+  differences?.asArray().forEach((entry) => {
+    const value = doc.context.lookup(entry);
+    if (value instanceof PDFNumber) {
+      code = value.asNumber();
+    } else if (value instanceof PDFName) {
+      glyphNames.set(code++, value.decodeText());
+    }
+  });
+
+  return {
+    bytesPerCode: 1,
+    width: (code) => (standardFont.getWidthOfGlyph(glyphNames.get(code) || '') || missingWidth || 500) / 1000,
+  };
+}
+
+function getFontMetrics(context: RedactionContext, resources: PDFDict | undefined, name: string) {
+  const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  const font = context.doc.context.lookup(fonts?.get(PDFName.of(name.slice(1))));
+  if (!(font instanceof PDFDict)) {
+    return FALLBACK_FONT;
+  }
+
+  let metrics = context.fonts.get(font);
+  if (!metrics) {
+    metrics = loadFontMetrics(context.doc, font);
+    context.fonts.set(font, metrics);
+  }
+  return metrics;
+}
+
+// Paints the parts of an image under the redaction rectangles, given the matrix it is drawn with
+function fillImageRegions(image: DecodedImage, ctm: Matrix, rects: Rect[], value: number) {
+  const inverse = invert(ctm);
+  if (!inverse) return;
+
+  for (const rect of rects) {
+    const corners = [
+      [rect.left, rect.bottom],
+      [rect.right, rect.bottom],
+      [rect.left, rect.top],
+      [rect.right, rect.top],
+    ].map(([x, y]) => transformPoint(inverse, x, y));
+    // Image space runs from the top row down while the unit square runs up
+    const bounds = boundsOf(corners.map(([u, v]) => [u * image.width, (1 - v) * image.height]));
+    const left = Math.max(0, Math.floor(bounds.left));
+    const right = Math.min(image.width, Math.ceil(bounds.right));
+    const top = Math.max(0, Math.floor(bounds.bottom));
+    const bottom = Math.min(image.height, Math.ceil(bounds.top));
+
+    for (let y = top; y < bottom; y++) {
+      const rowStart = (y * image.width + left) * image.channels;
+      image.pixels.fill(value, rowStart, rowStart + (right - left) * image.channels);
+    }
+  }
+}
+
+function encodeImage(doc: PDFDocument, source: PDFRawStream, image: DecodedImage) {
+  const dict = source.dict.clone(doc.context);
+  dict.delete(PDFName.of('DecodeParms'));
+  dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+  return PDFRawStream.of(dict, deflateSync(image.pixels));
+}
+
+/**
+ * Blacks out the pixels of an image that fall under the redaction rectangles
+ * and returns a new image object. Returns null for images that cannot be
+ * decoded, which callers then drop completely.
+ */
+async function redactImage(context: RedactionContext, stream: PDFRawStream, ctm: Matrix, rects: Rect[]) {
+  const { doc } = context;
+  const image = await decodeImagePixels(doc, stream);
+  if (!image) return null;
+
+  fillImageRegions(image, ctm, rects, 0);
+  const redacted = encodeImage(doc, stream, image);
+
+  // A soft mask would still trace the outline of what was removed, so the
+  // redacted region becomes fully opaque
+  const softMask = doc.context.lookup(stream.dict.get(PDFName.of('SMask')));
+  const mask = softMask instanceof PDFRawStream ? await decodeImagePixels(doc, softMask) : null;
+  if (softMask instanceof PDFRawStream && mask) {
+    fillImageRegions(mask, ctm, rects, 255);
+    redacted.dict.set(PDFName.of('SMask'), doc.context.register(encodeImage(doc, softMask, mask)));
+  } else {
+    redacted.dict.delete(PDFName.of('SMask'));
+  }
+  if (doc.context.lookup(stream.dict.get(PDFName.of('Mask'))) instanceof PDFRawStream) {
+    redacted.dict.delete(PDFName.of('Mask'));
+  }
+
+  return doc.context.register(redacted);
+}
+
+/**
+ * Walks a content stream with enough of the graphics and text state to place
+ * every glyph, image and form XObject, and removes whatever lands inside the
+ * redaction rectangles. Removed glyphs become TJ spacing so the text that
+ * remains on the line keeps its position.
+ */
+async function redactContent(
+  context: RedactionContext,
+  content: string,
+  resources: PDFDict | undefined,
+  initialState: GraphicsState,
+  depth = 0
+): Promise<{ content: string; resources: PDFDict | undefined; changed: boolean }> {
+  const { doc, rects } = context;
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  const edits: ContentEdit[] = [];
+  const stack: GraphicsState[] = [];
+  let state = { ...initialState };
+  let textMatrix = IDENTITY;
+  let lineMatrix = IDENTITY;
+
+  // Rewritten XObjects get fresh names so other draws of the original are unaffected
+  let newResources: PDFDict | undefined;
+  let newXObjects: PDFDict | undefined;
+  const getNewXObjects = () => {
+    if (!newResources || !newXObjects) {
+      newResources = resources ? resources.clone(doc.context) : doc.context.obj({});
+      newXObjects = xObjects ? xObjects.clone(doc.context) : doc.context.obj({});
+      newResources.set(PDFName.of('XObject'), newXObjects);
+    }
+    return newXObjects;
+  };
+  const addXObject = (ref: PDFRef) => {
+    const dict = getNewXObjects();
+    let index = 1;
+    while (dict.has(PDFName.of(`Redacted${index}`))) index++;
+    dict.set(PDFName.of(`Redacted${index}`), ref);
+    return `/Redacted${index}`;
+  };
+
+  // Originals whose every draw was rewritten must leave the resources, or
+  // their unredacted data would still be reachable in the saved file
+  const draws = new Map<string, { total: number; replaced: number }>();
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  const showText = (elements: string[]) => {
+    const { font, fontSize, charSpacing, wordSpacing, horizontalScale, rise } = state;
+    if (font.unsupported) {
+      throw new RedactionError(font.unsupported);
+    }
+    const output: string[] = [];
+    let kept: number[] = [];
+    let removed = false;
+
+    const flush = () => {
+      if (kept.length > 0) output.push(`<${Buffer.from(kept).toString('hex')}>`);
+      kept = [];
+    };
+    const pushSpacing = (amount: number) => {
+      flush();
+      const last = output.length - 1;
+      if (last >= 0 && !output[last].startsWith('<')) {
+        output[last] = formatNumber(Number(output[last]) + amount);
+      } else {
+        output.push(formatNumber(amount));
+      }
+    };
+
+    for (const element of elements) {
+      if (!element.startsWith('(') && !element.startsWith('<')) {
+        const adjustment = Number(element) || 0;
+        textMatrix = multiply([1, 0, 0, 1, (-adjustment / 1000) * fontSize * horizontalScale, 0], textMatrix);
+        pushSpacing(adjustment);
+        continue;
+      }
+
+      const bytes = decodeStringOperand(element);
+      for (let i = 0; i < bytes.length; i += font.bytesPerCode) {
+        const codeBytes = bytes.slice(i, i + font.bytesPerCode);
+        const code = codeBytes.reduce((value, byte) => value * 256 + byte, 0);
+        const glyphWidth = font.width(code);
+        // Word spacing only applies to the single-byte space character
+        const spacing = charSpacing + (font.bytesPerCode === 1 && code === 32 ? wordSpacing : 0);
+        const advance = glyphWidth * fontSize + spacing;
+
+        const renderMatrix = multiply(
+          [fontSize * horizontalScale, 0, 0, fontSize, 0, rise],
+          multiply(textMatrix, state.ctm)
+        );
+        const [x, y] = transformPoint(renderMatrix, glyphWidth / 2, 0.3);
+        if (fontSize !== 0 && rects.some((rect) => containsPoint(rect, x, y))) {
+          removed = true;
+          pushSpacing((-advance * 1000) / fontSize);
+        } else {
+          kept.push(...codeBytes);
+        }
+
+        textMatrix = multiply([1, 0, 0, 1, advance * horizontalScale, 0], textMatrix);
+      }
+    }
+
+    flush();
+    return removed ? `[${output.join(' ')}] TJ` : null;
+  };
+
+  for (const operation of parseContentStream(content)) {
+    const { operator, operands } = operation;
+    const numbers = operands.map(Number);
+    let replacement: string | null = null;
+
+    switch (operator) {
+      case 'q':
+        stack.push({ ...state });
+        break;
+      case 'Q':
+        state = stack.pop() || state;
+        break;
+      case 'cm': {
+        const matrix = readMatrix(operands);
+        if (matrix) state.ctm = multiply(matrix, state.ctm);
+        break;
+      }
+      case 'BT':
+        textMatrix = IDENTITY;
+        lineMatrix = IDENTITY;
+        break;
+      case 'Tc':
+        state.charSpacing = numbers[0] || 0;
+        break;
+      case 'Tw':
+        state.wordSpacing = numbers[0] || 0;
+        break;
+      case 'Tz':
+        state.horizontalScale = (numbers[0] ?? 100) / 100;
+        break;
+      case 'TL':
+        state.leading = numbers[0] || 0;
+        break;
+      case 'Ts':
+        state.rise = numbers[0] || 0;
+        break;
+      case 'Tf':
+        state.font = getFontMetrics(context, resources, operands[0] || '');
+        state.fontSize = numbers[1] || 0;
+        break;
+      case 'Td':
+        moveLine(numbers[0] || 0, numbers[1] || 0);
+        break;
+      case 'TD':
+        state.leading = -(numbers[1] || 0);
+        moveLine(numbers[0] || 0, numbers[1] || 0);
+        break;
+      case 'Tm': {
+        const matrix = readMatrix(operands);
+        if (matrix) {
+          textMatrix = matrix;
+          lineMatrix = matrix;
+        }
+        break;
+      }
+      case 'T*':
+        moveLine(0, -state.leading);
+        break;
+      case 'Tj': {
+        const shown = showText(operands.slice(-1));
+        if (shown) replacement = shown;
+        break;
+      }
+      case "'": {
+        moveLine(0, -state.leading);
+        const shown = showText(operands.slice(-1));
+        if (shown) replacement = `T* ${shown}`;
+        break;
+      }
+      case '"': {
+        state.wordSpacing = numbers[0] || 0;
+        state.charSpacing = numbers[1] || 0;
+        moveLine(0, -state.leading);
+        const shown = showText(operands.slice(-1));
+        if (shown) replacement = `${operands[0]} Tw ${operands[1]} Tc T* ${shown}`;
+        break;
+      }
+      case 'TJ': {
+        const shown = showText(parseArrayOperand(operands[operands.length - 1] || '[]'));
+        if (shown) replacement = shown;
+        break;
+      }
+      case 'BI':
+        // Inline images are small enough that dropping them is simpler than editing their data
+        if (rects.some((rect) => intersects(rect, unitSquareBounds(state.ctm)))) {
+          replacement = '';
+        }
+        break;
+      case 'Do': {
+        const xObject = doc.context.lookup(xObjects?.get(PDFName.of((operands[0] || '/').slice(1))));
+        if (!(xObject instanceof PDFRawStream)) break;
+        const subtype = getName(xObject.dict.get(PDFName.of('Subtype')));
+
+        if (subtype === 'Image') {
+          const hit = rects.filter((rect) => intersects(rect, unitSquareBounds(state.ctm)));
+          if (hit.length === 0) break;
+          const ref = await redactImage(context, xObject, state.ctm, hit);
+          replacement = ref ? `${addXObject(ref)} Do` : '';
+        } else if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+          const matrix = xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray)?.asArray().map((value) => getNumber(value) ?? 0);
+          const formState = { ...state, ctm: multiply(matrix?.length === 6 ? matrix : IDENTITY, state.ctm) };
+          const bbox = xObject.dict.lookupMaybe(PDFName.of('BBox'), PDFArray)?.asArray().map((value) => getNumber(value) ?? 0);
+          if (bbox?.length === 4) {
+            const bounds = boundsOf([
+              transformPoint(formState.ctm, bbox[0], bbox[1]),
+              transformPoint(formState.ctm, bbox[2], bbox[1]),
+              transformPoint(formState.ctm, bbox[0], bbox[3]),
+              transformPoint(formState.ctm, bbox[2], bbox[3]),
+            ]);
+            if (!rects.some((rect) => intersects(rect, bounds))) break;
+          }
+
+          const formContent = readContentStream(doc, xObject);
+          if (formContent === null) {
+            throw new RedactionError('The PDF uses a content encoding that cannot be redacted.');
+          }
+          // Forms without their own resources inherit the ones of whatever draws them
+          const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) || resources;
+          const result = await redactContent(context, formContent, formResources, formState, depth + 1);
+          if (!result.changed) break;
+
+          const form = copyFormWithContent(doc, xObject, result.content);
+          if (result.resources) form.dict.set(PDFName.of('Resources'), result.resources);
+          replacement = `${addXObject(doc.context.register(form))} Do`;
+        }
+        break;
+      }
+    }
+
+    if (operator === 'Do') {
+      const count = draws.get(operands[0]) || { total: 0, replaced: 0 };
+      count.total++;
+      if (replacement !== null) count.replaced++;
+      draws.set(operands[0], count);
+    }
+    if (replacement !== null) {
+      edits.push({ start: operation.start, end: operation.end, replacement });
+    }
+  }
+
+  if (edits.length === 0) {
+    return { content, resources, changed: false };
+  }
+
+  draws.forEach(({ total, replaced }, name) => {
+    if (replaced === total) getNewXObjects().delete(PDFName.of(name.slice(1)));
+  });
+
+  let redacted = '';
+  let position = 0;
+  for (const edit of edits) {
+    redacted += content.slice(position, edit.start) + edit.replacement;
+    position = edit.end;
+  }
+  redacted += content.slice(position);
+  return { content: redacted, resources: newResources || resources, changed: true };
+}
+
+function setAnnotations(doc: PDFDocument, page: PDFPage, annots: PDFArray, kept: PDFObject[]) {
+  if (kept.length === 0) {
+    page.node.delete(PDFName.of('Annots'));
+  } else if (kept.length < annots.size()) {
+    page.node.set(PDFName.of('Annots'), doc.context.obj(kept));
+  }
+}
+
+// Removes the annotations under the rectangles and returns the form field widgets among them
+function removeAnnotations(doc: PDFDocument, page: PDFPage, rects: Rect[]): PDFRef[] {
+  const annots = page.node.Annots();
+  if (!annots) return [];
+
+  const widgets: PDFRef[] = [];
+  const kept = annots.asArray().filter((ref) => {
+    const annot = doc.context.lookupMaybe(ref, PDFDict);
+    const values = annot?.lookupMaybe(PDFName.of('Rect'), PDFArray)?.asArray().map((value) => getNumber(value) ?? 0);
+    if (!values || values.length !== 4) return true;
+    const bounds = boundsOf([values.slice(0, 2), values.slice(2)]);
+    if (!rects.some((redaction) => intersects(redaction, bounds))) return true;
+
+    if (ref instanceof PDFRef && getName(annot?.get(PDFName.of('Subtype'))) === 'Widget') {
+      widgets.push(ref);
+    }
+    return false;
+  });
+
+  setAnnotations(doc, page, annots, kept);
+  return widgets;
+}
+
+// Takes a field out of its parent's kids, or out of the form when it has no
+// parent. Parents left without kids go as well.
+function detachField(doc: PDFDocument, acroForm: PDFDict, field: PDFRef) {
+  const parentRef = doc.context.lookupMaybe(field, PDFDict)?.get(PDFName.of('Parent'));
+  const parent = parentRef instanceof PDFRef ? doc.context.lookupMaybe(parentRef, PDFDict) : undefined;
+  const siblings = parent
+    ? parent.lookupMaybe(PDFName.of('Kids'), PDFArray)
+    : acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray);
+
+  const index = siblings?.indexOf(field);
+  if (siblings && index !== undefined) siblings.remove(index);
+
+  const calculationOrder = acroForm.lookupMaybe(PDFName.of('CO'), PDFArray);
+  const calculationIndex = calculationOrder?.indexOf(field);
+  if (calculationOrder && calculationIndex !== undefined) calculationOrder.remove(calculationIndex);
+
+  if (parentRef instanceof PDFRef && siblings?.size() === 0) {
+    detachField(doc, acroForm, parentRef);
+  }
+}
+
+/**
+ * A field keeps its value (/V) in the field rather than in its widgets, so
+ * every field with a widget under a box is removed from the form, together
+ * with its widgets on other pages, which show the same value.
+ */
+function removeFormFields(doc: PDFDocument, widgets: PDFRef[]) {
+  const acroForm = doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (!acroForm || widgets.length === 0) return;
+
+  // A widget with a name of its own is also the field; otherwise its parent is
+  const fields = new Set<PDFRef>();
+  for (const ref of widgets) {
+    const widget = doc.context.lookupMaybe(ref, PDFDict);
+    const parent = widget?.get(PDFName.of('Parent'));
+    fields.add(widget?.has(PDFName.of('T')) || !(parent instanceof PDFRef) ? ref : parent);
+  }
+
+  const removedWidgets = new Set<PDFObject>(widgets);
+  fields.forEach((field) => {
+    const kids = doc.context.lookupMaybe(field, PDFDict)?.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    kids?.asArray().forEach((kid) => removedWidgets.add(kid));
+    detachField(doc, acroForm, field);
+  });
+
+  for (const page of doc.getPages()) {
+    const annots = page.node.Annots();
+    if (annots) {
+      setAnnotations(doc, page, annots, annots.asArray().filter((ref) => !removedWidgets.has(ref)));
+    }
+  }
+
+  // XFA forms keep a second copy of every value
+  acroForm.delete(PDFName.of('XFA'));
+}
+
+// Every non-empty match of a global pattern, stopped with a RedactionError when it runs too long
+function findPatternMatches(pattern: RegExp, text: string): RegExpExecArray[] {
+  const search = () => {
+    const found: RegExpExecArray[] = [];
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if (match[0]) {
+        found.push(match);
+      } else {
+        pattern.lastIndex++;
+      }
+    }
+    return found;
+  };
+
+  try {
+    return runInNewContext('search()', { search }, { timeout: MATCH_TIMEOUT_MS });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new RedactionError('The search took too long to run. Try a simpler regular expression.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * The strings outside the page content that can repeat what a page says:
+ * document properties, XMP metadata, bookmark titles and the replacement,
+ * alternate and title text of tagged elements.
+ */
+function collectDocumentText(doc: PDFDocument): DocumentText[] {
+  const texts: DocumentText[] = [];
+  const addString = (dict: PDFDict, key: string, location: string) => {
+    const text = getText(dict.lookup(PDFName.of(key)));
+    if (text !== undefined) {
+      texts.push({ location, text, replace: (value) => dict.set(PDFName.of(key), PDFHexString.fromText(value)) });
+    }
+  };
+
+  const info = doc.context.lookup(doc.context.trailerInfo.Info);
+  if (info instanceof PDFDict) {
+    info.keys().forEach((key) => addString(info, key.decodeText(), `document property ${key.decodeText()}`));
+  }
+
+  // XMP is XML that a replacement could break, so metadata with a hit is dropped
+  const xmp = doc.catalog.lookup(PDFName.of('Metadata'));
+  if (xmp instanceof PDFRawStream) {
+    texts.push({
+      location: 'XMP metadata',
+      text: Buffer.from(decodePDFRawStream(xmp).decode()).toString('utf8'),
+      replace: () => doc.catalog.delete(PDFName.of('Metadata')),
+    });
+  }
+
+  const visited = new Set<PDFDict>();
+  const visitOutline = (first: PDFDict | undefined) => {
+    for (let item = first; item && !visited.has(item); item = item.lookupMaybe(PDFName.of('Next'), PDFDict)) {
+      visited.add(item);
+      addString(item, 'Title', 'bookmark titles');
+      visitOutline(item.lookupMaybe(PDFName.of('First'), PDFDict));
+    }
+  };
+  visitOutline(doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)?.lookupMaybe(PDFName.of('First'), PDFDict));
+
+  const visitStructure = (value: PDFObject | undefined) => {
+    const node = value instanceof PDFRef ? doc.context.lookup(value) : value;
+    if (node instanceof PDFArray) {
+      node.asArray().forEach(visitStructure);
+    }
+    if (!(node instanceof PDFDict) || visited.has(node)) return;
+    visited.add(node);
+    ['ActualText', 'Alt', 'E', 'T'].forEach((key) => addString(node, key, `/${key} text of tagged elements`));
+    visitStructure(node.get(PDFName.of('K')));
+  };
+  visitStructure(doc.catalog.lookupMaybe(PDFName.of('StructTreeRoot'), PDFDict)?.get(PDFName.of('K')));
+
+  return texts;
+}
+
+// Replaces every search hit in the strings outside the page content
+function scrubDocumentText(doc: PDFDocument, patterns: RegExp[]) {
+  for (const { text, replace } of collectDocumentText(doc)) {
+    let scrubbed = text;
+    for (const pattern of patterns) {
+      scrubbed = findPatternMatches(pattern, scrubbed).reduceRight(
+        (value, match) => value.slice(0, match.index) + REDACTED_TEXT + value.slice(match.index + match[0].length),
+        scrubbed
+      );
+    }
+    if (scrubbed !== text) {
+      replace(scrubbed);
+    }
+  }
+}
+
+// Converts an area on the rendered page into a rectangle in PDF user space
+function areaToRect(area: RedactionArea, viewport: PageViewport): Rect {
+  return boundsOf([
+    viewport.convertToPdfPoint(area.x * viewport.width, area.y * viewport.height),
+    viewport.convertToPdfPoint((area.x + area.width) * viewport.width, (area.y + area.height) * viewport.height),
+  ]);
+}
+
+// Relative character widths; pdf.js only reports the width of a whole text item
+function getRelativeWidth(char: string) {
+  const codePoint = char.codePointAt(0) || 0;
+  if (!Encodings.WinAnsi.canEncodeUnicodeCodePoint(codePoint)) return 556;
+  const { name } = Encodings.WinAnsi.encodeUnicodeCodePoint(codePoint);
+  return Font.load(FontNames.Helvetica).getWidthOfGlyph(name) || 556;
+}
+
+/**
+ * The area covered by characters [from, to) of a text item. Positions inside
+ * the item are estimated by sharing its width out in Helvetica proportions,
+ * or evenly for monospaced fonts, which is close enough once padding is added.
+ */
+function textItemArea(
+  item: PositionedTextItem,
+  from: number,
+  to: number,
+  viewport: PageViewport,
+  page: number,
+  paddingShare = MATCH_PADDING
+) {
+  const [a, b, c, d, e, f] = item.transform;
+  const scaleX = Math.hypot(a, b) || 1;
+  const scaleY = Math.hypot(c, d) || 1;
+  const height = item.height || scaleY;
+
+  const widths = item.str.split('').map((char) => (item.fontFamily === 'monospace' ? 1 : getRelativeWidth(char)));
+  const scale = item.width / (widths.reduce((sum, width) => sum + width, 0) || 1);
+  const offsetOf = (index: number) => widths.slice(0, index).reduce((sum, width) => sum + width, 0) * scale;
+  const padding = paddingShare * (item.width / Math.max(widths.length, 1));
+
+  const start = offsetOf(from) - padding;
+  const end = offsetOf(to) + padding;
+  const corners = [
+    [start, -height * 0.25],
+    [end, -height * 0.25],
+    [start, height],
+    [end, height],
+  ].map(([x, y]) =>
+    viewport.convertToViewportPoint(
+      e + (a / scaleX) * x + (c / scaleY) * y,
+      f + (b / scaleX) * x + (d / scaleY) * y
+    )
+  );
+  const bounds = boundsOf(corners);
+
+  return {
+    page,
+    x: bounds.left / viewport.width,
+    y: bounds.bottom / viewport.height,
+    width: (bounds.right - bounds.left) / viewport.width,
+    height: (bounds.top - bounds.bottom) / viewport.height,
+  };
+}
+
+/**
+ * Finds every match of the patterns in the page text pdf.js extracts, with
+ * the areas each one covers so users can review them before anything is removed.
+ */
+export async function findRedactionMatches(pdfDoc: PDFDocumentProxy, patterns: RegExp[]): Promise<RedactionMatch[]> {
+  const matches: RedactionMatch[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdfDoc.numPages; pageNumber++) {
+    const page = await pdfDoc.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const items = await getPositionedTextItems(page);
+
+    let text = '';
+    const offsets = items.map((item) => {
+      const start = text.length;
+      text += item.str + (item.hasEOL ? '\n' : '');
+      return start;
+    });
+
+    const seen = new Set<string>();
+    const pageMatches: (RedactionMatch & { start: number })[] = [];
+    for (const pattern of patterns) {
+      for (const match of findPatternMatches(pattern, text)) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (seen.has(`${start}:${end}`)) continue;
+        seen.add(`${start}:${end}`);
+
+        const areas = items.flatMap((item, i) => {
+          const from = Math.max(start, offsets[i]) - offsets[i];
+          const to = Math.min(end, offsets[i] + item.str.length) - offsets[i];
+          return to > from && item.str.slice(from, to).trim() ? [textItemArea(item, from, to, viewport, pageNumber)] : [];
+        });
+        if (areas.length > 0) {
+          pageMatches.push({ id: '', page: pageNumber, text: match[0], areas, start });
+        }
+      }
+    }
+
+    pageMatches
+      .sort((a, b) => a.start - b.start)
+      .forEach(({ start, ...match }) => matches.push({ ...match, id: `${pageNumber}-${start}` }));
+  }
+
+  return matches;
+}
+
+/**
+ * Removes the text, image pixels, form content and annotations under each
+ * area, then paints opaque boxes over them. Nothing that was under a box
+ * survives in the saved file, unlike drawing a rectangle on top. Hits of the
+ * search patterns are also replaced in properties, bookmarks and tags.
+ */
+export async function redactPdf(
+  pdfDoc: PDFDocument,
+  pdfjsDoc: PDFDocumentProxy,
+  areas: RedactionArea[],
+  patterns: RegExp[] = []
+): Promise<Uint8Array> {
+  const pages = pdfDoc.getPages();
+  const fonts = new Map<PDFDict, FontMetrics>();
+  const widgets: PDFRef[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pages.length; pageNumber++) {
+    const pageAreas = areas.filter((area) => area.page === pageNumber);
+    if (pageAreas.length === 0) continue;
+
+    const page = pages[pageNumber - 1];
+    const viewport = (await pdfjsDoc.getPage(pageNumber)).getViewport({ scale: 1 });
+    const rects = pageAreas.map((area) => areaToRect(area, viewport));
+
+    const content = readContentStream(pdfDoc, page.node.get(PDFName.of('Contents')));
+    if (content === null) {
+      throw new RedactionError(`Page ${pageNumber} uses a content encoding that cannot be redacted.`);
+    }
+
+    const result = await redactContent({ doc: pdfDoc, rects, fonts }, content, page.node.Resources(), {
+      ctm: IDENTITY,
+      charSpacing: 0,
+      wordSpacing: 0,
+      horizontalScale: 1,
+      leading: 0,
+      rise: 0,
+      font: FALLBACK_FONT,
+      fontSize: 0,
+    });
+    if (result.resources) {
+      page.node.set(PDFName.of('Resources'), result.resources);
+    }
+
+    const boxes = rects
+      .map((rect) => [rect.left, rect.bottom, rect.right - rect.left, rect.top - rect.bottom].map(formatNumber).join(' ') + ' re')
+      .join('\n');
+    setPageContent(pdfDoc, page, `q\n${result.content}\nQ\nq 0 g\n${boxes}\nf\nQ\n`);
+    widgets.push(...removeAnnotations(pdfDoc, page, rects));
+    // The thumbnail is a picture of the page as it was
+    page.node.delete(PDFName.of('Thumb'));
+  }
+  removeFormFields(pdfDoc, widgets);
+  scrubDocumentText(pdfDoc, patterns);
+
+  // The original streams are still in the file until nothing points at them
+  removeUnreachableObjects(pdfDoc);
+  return pdfDoc.save();
+}
+
+/**
+ * Reads the text of a redacted file back and throws when any character
+ * still lies under a box, or when a search pattern still matches a string
+ * outside the page content. Characters are placed with the same estimate
+ * used for matches, so only ones that fall wholly inside a box count.
+ */
+export async function verifyRedaction(pdfDoc: PDFDocumentProxy, areas: RedactionArea[], patterns: RegExp[] = []) {
+  const doc = await PDFDocument.load(await pdfDoc.getData(), { updateMetadata: false });
+  const leaked = collectDocumentText(doc).find(({ text }) =>
+    patterns.some((pattern) => findPatternMatches(pattern, text).length > 0)
+  );
+  if (leaked) {
+    throw new RedactionError(`Searched text is still in the ${leaked.location}, so the redacted file was not produced.`);
+  }
+
+  for (const pageNumber of Array.from(new Set(areas.map((area) => area.page)))) {
+    const page = await pdfDoc.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const pageAreas = areas.filter((area) => area.page === pageNumber);
+
+    for (const item of await getPositionedTextItems(page)) {
+      for (let i = 0; i < item.str.length; i++) {
+        if (!item.str[i].trim()) continue;
+        const char = textItemArea(item, i, i + 1, viewport, pageNumber, 0);
+        const middle = char.y + char.height / 2;
+        const covered = pageAreas.some((area) =>
+          char.x >= area.x &&
+          char.x + char.width <= area.x + area.width &&
+          middle >= area.y &&
+          middle <= area.y + area.height
+        );
+        if (covered) {
+          throw new RedactionError(`Text under a redaction box on page ${pageNumber} could still be read, so the redacted file was not produced.`);
+        }
+      }
+    }
+  }
+}
@@ -126,6 +126,69 @@ export class OllamaService {
     }
   }
 
+  /**
+   * Streams the response token by token. Ollama sends one JSON object per
+   * line until one has `done: true`. Aborting `signal` stops the generation.
+   */
+  public async *generateStream(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+    if (!this.isConnected) {
+      const status = await this.checkConnection();
+      if (!status.isRunning) {
+        throw new Error(status.error);
+      }
+    }
+
+    console.log(`Streaming response using model: ${this.modelName}`);
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.modelName,
+        prompt,
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      throw new Error(`Ollama API error: ${response.statusText}. ${errorText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+
+        // The last line may be incomplete until the next read
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop()!;
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const data = JSON.parse(line);
+          if (data.error) {
+            throw new Error(`Ollama API error: ${data.error}`);
+          }
+          if (data.response) {
+            yield data.response;
+          }
+          if (data.done) {
+            return;
+          }
+        }
+
+        if (done) return;
+      }
+    } finally {
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+
   public async getEmbeddings(texts: string[]): Promise<number[][]> {
     if (!this.isConnected) {
       const status = await this.checkConnection();
@@ -0,0 +1,44 @@
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// Data is JSON encoded so tokens with newlines stay on one `data:` line
+export const encodeSseEvent = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Reads server-sent events from a fetch response body. Only the `event` and
+ * `data` fields are supported, which is all the chat route sends.
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        }
+        if (data.length > 0) yield { event, data: data.join('\n') };
+      }
+
+      if (done) return;
+    }
+  } finally {
+    // Stops the download when the caller breaks out early
+    await reader.cancel().catch(() => undefined);
+  }
+}
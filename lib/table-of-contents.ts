@@ -0,0 +1,123 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { OutlineEntry, shiftOutline } from './outline-utils';
+
+const MARGIN = 72;
+const TITLE_SIZE = 20;
+const ENTRY_SIZE = 11;
+const LINE_HEIGHT = 20;
+const INDENT = 18;
+
+// Used when the document has no pages to take the size from
+const A4_SIZE: [number, number] = [595.28, 841.89];
+
+interface TocLine {
+  title: string;
+  pageNumber: number;
+  depth: number;
+}
+
+const flattenEntries = (entries: OutlineEntry[], depth = 0): TocLine[] =>
+  entries.flatMap((entry) => [
+    ...(entry.pageNumber !== null ? [{ title: entry.title, pageNumber: entry.pageNumber, depth }] : []),
+    ...flattenEntries(entry.children, depth + 1),
+  ]);
+
+// The standard fonts only cover Latin-1, so other characters are shown as "?"
+const encodableText = (font: PDFFont, text: string) => {
+  const characters = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\s+/g, ' ').trim())
+    .map((char) => (characters.has(char.codePointAt(0)!) ? char : '?'))
+    .join('');
+};
+
+// Shortens a title with an ellipsis until it fits the given width
+function fitText(font: PDFFont, text: string, size: number, maxWidth: number) {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}...`, size) > maxWidth) end--;
+  return `${text.slice(0, end).trimEnd()}...`;
+}
+
+function addLink(page: PDFPage, target: PDFPage, rect: [number, number, number, number]) {
+  const { context } = page.doc;
+  const link = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: rect,
+      Border: [0, 0, 0],
+      Dest: [target.ref, 'XYZ', null, null, null],
+    })
+  );
+  page.node.addAnnot(link);
+}
+
+/**
+ * Inserts "Contents" pages at the front of the document listing every
+ * outline entry that points at a page, with dot leaders, page numbers and
+ * clickable links. Returns the outline with its page numbers shifted past
+ * the inserted pages.
+ */
+export async function insertTableOfContents(pdfDoc: PDFDocument, entries: OutlineEntry[]): Promise<OutlineEntry[]> {
+  const lines = flattenEntries(entries);
+  if (lines.length === 0) return entries;
+
+  const pages = pdfDoc.getPages();
+  const [width, height] = pages[0] ? [pages[0].getWidth(), pages[0].getHeight()] : A4_SIZE;
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const firstPageLines = Math.max(1, Math.floor((height - 2 * MARGIN - TITLE_SIZE * 2) / LINE_HEIGHT));
+  const otherPageLines = Math.max(1, Math.floor((height - 2 * MARGIN) / LINE_HEIGHT));
+  const tocPageCount = 1 + Math.ceil(Math.max(0, lines.length - firstPageLines) / otherPageLines);
+
+  let lineIndex = 0;
+  for (let i = 0; i < tocPageCount; i++) {
+    const page = pdfDoc.insertPage(i, [width, height]);
+    let y = height - MARGIN;
+
+    if (i === 0) {
+      page.drawText('Contents', { x: MARGIN, y: y - TITLE_SIZE, size: TITLE_SIZE, font: boldFont });
+      y -= TITLE_SIZE * 2;
+    }
+
+    const pageLines = lines.slice(lineIndex, lineIndex + (i === 0 ? firstPageLines : otherPageLines));
+    lineIndex += pageLines.length;
+
+    for (const line of pageLines) {
+      y -= LINE_HEIGHT;
+      const x = MARGIN + Math.min(line.depth, 6) * INDENT;
+      const entryFont = line.depth === 0 ? boldFont : font;
+      // Printed numbers count the contents pages too, so they match the reader's page counter
+      const pageLabel = String(line.pageNumber + tocPageCount);
+      const labelWidth = font.widthOfTextAtSize(pageLabel, ENTRY_SIZE);
+      const right = width - MARGIN;
+      const title = fitText(
+        entryFont,
+        encodableText(entryFont, line.title) || 'Untitled',
+        ENTRY_SIZE,
+        right - x - labelWidth - 24
+      );
+      const titleWidth = entryFont.widthOfTextAtSize(title, ENTRY_SIZE);
+
+      page.drawText(title, { x, y, size: ENTRY_SIZE, font: entryFont });
+      const dotWidth = font.widthOfTextAtSize('.', ENTRY_SIZE);
+      const dots = Math.max(0, Math.floor((right - labelWidth - x - titleWidth - 12) / dotWidth));
+      page.drawText('.'.repeat(dots), {
+        x: right - labelWidth - 6 - dots * dotWidth,
+        y,
+        size: ENTRY_SIZE,
+        font,
+        color: rgb(0.6, 0.6, 0.6),
+      });
+      page.drawText(pageLabel, { x: right - labelWidth, y, size: ENTRY_SIZE, font });
+
+      const target = pages[line.pageNumber - 1];
+      if (target) {
+        addLink(page, target, [x, y - 4, right, y + ENTRY_SIZE + 2]);
+      }
+    }
+  }
+
+  return shiftOutline(entries, tocPageCount);
+}
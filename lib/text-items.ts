@@ -0,0 +1,30 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// A run of text from pdf.js with its position in PDF user space
+export interface PositionedTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  fontName: string;
+  // Generic family pdf.js picked for the font: "serif", "sans-serif" or "monospace"
+  fontFamily: string;
+  hasEOL: boolean;
+}
+
+export async function getPositionedTextItems(page: PDFPageProxy): Promise<PositionedTextItem[]> {
+  const content = await page.getTextContent();
+  return content.items
+    // Marked-content markers carry no text and have no `str`
+    .filter((item): item is TextItem => 'str' in item)
+    .map((item) => ({
+      str: item.str,
+      transform: item.transform,
+      width: item.width,
+      height: item.height,
+      fontName: item.fontName,
+      fontFamily: content.styles[item.fontName]?.fontFamily || 'sans-serif',
+      hasEOL: item.hasEOL,
+    }));
+}
@@ -0,0 +1,30 @@
+import JSZip from 'jszip';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | Buffer | string;
+}
+
+export async function createZipArchive(entries: ZipEntry[]): Promise<Buffer> {
+  try {
+    const zip = new JSZip();
+    for (const entry of entries) {
+      zip.file(entry.name, entry.data);
+    }
+
+    return await zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    });
+  } catch (error) {
+    console.error('Error creating ZIP archive:', error);
+    throw new Error('Failed to create ZIP archive');
+  }
+}
+
+// Zero-padded page suffix, e.g. "report-p003.png" for page 3 of a 120-page file
+export function pageFileName(baseName: string, page: number, pageCount: number, extension: string) {
+  const width = Math.max(3, String(pageCount).length);
+  return `${baseName}-p${String(page).padStart(width, '0')}.${extension}`;
+}
@@ -1,4 +1,10 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // tesseract.js starts its OCR worker from a file inside its package, and
+    // @react-pdf/renderer loads its standard fonts from disk; both break when bundled
+    serverComponentsExternalPackages: ['tesseract.js', '@react-pdf/renderer'],
+  },
+};
 
 export default nextConfig;